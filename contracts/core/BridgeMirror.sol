@@ -102,6 +102,10 @@ contract BridgeMirror is ReentrancyGuard {
         emit AssetClaimed(asset, recipient, amount, proofHash);
     }
 
+    function getAssetInfo(address asset) external view returns (AssetInfo memory) {
+        return _assetInfo[asset];
+    }
+
     // Internal functions
     function _addAsset(address asset, uint128 limit) internal {
         if (asset == address(0)) revert BridgeErrors.ZeroAddress();
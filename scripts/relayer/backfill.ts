@@ -0,0 +1,80 @@
+import { BackfillEntry, BackfillService } from "../../src/services/BackfillService";
+import { createReadOnlyRelayerContext, createRelayerContext } from "./context";
+require('dotenv').config();
+
+const USAGE = "Usage: backfill.ts --chain <chainId> --from <block> --to <block> [--events TokensLocked,TransactionMirrored] [--dry-run]";
+
+function parseArgs(argv: string[]) {
+    const args = new Map<string, string>();
+    let dryRun = false;
+
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i] === '--dry-run') {
+            dryRun = true;
+        } else if (argv[i].startsWith('--') && i + 1 < argv.length) {
+            args.set(argv[i].slice(2), argv[++i]);
+        } else {
+            throw new Error(`Unexpected argument: ${argv[i]}\n${USAGE}`);
+        }
+    }
+
+    const number = (name: string) => {
+        const value = Number(args.get(name));
+        if (!args.has(name) || !Number.isInteger(value) || value < 0) {
+            throw new Error(`--${name} must be a non-negative integer\n${USAGE}`);
+        }
+        return value;
+    };
+
+    return {
+        chainId: number('chain'),
+        fromBlock: number('from'),
+        toBlock: number('to'),
+        events: args.get('events')?.split(',').map(name => name.trim()).filter(Boolean),
+        dryRun
+    };
+}
+
+const describe = (entry: BackfillEntry) =>
+    `  ${entry.event} ${entry.id} (block ${entry.blockNumber}, tx ${entry.transactionHash}): ${entry.outcome}`;
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const environment = process.env.DEPLOY_ENV || 'local';
+    // A dry run only reads state, so it neither waits for the daemon nor needs the relayer key
+    const { networkManager, chains, networks, relayer } = options.dryRun
+        ? await createReadOnlyRelayerContext(environment)
+        : await createRelayerContext(environment);
+
+    const config = chains.get(options.chainId);
+    if (!config) {
+        throw new Error(`Chain ${options.chainId} is not configured for environment: ${environment}`);
+    }
+
+    const backfill = new BackfillService(
+        networkManager.getProvider(options.chainId),
+        config,
+        relayer,
+        networks.get(options.chainId)?.requiredConfirmations
+    );
+    const report = await backfill.run(options);
+
+    console.log(`${report.dryRun ? "Dry run of chain" : "Backfilled chain"} ${report.chainId}, blocks ${report.fromBlock}-${report.toBlock}: ${report.scanned} events`);
+    const sections: [string, BackfillEntry[]][] = [
+        [report.dryRun ? "Would relay" : "Newly relayed", report.relayed],
+        ["Already processed", report.alreadyProcessed],
+        ["Skipped", report.skipped],
+        ["Failed", report.failed]
+    ];
+    for (const [title, entries] of sections) {
+        console.log(`${title}: ${entries.length}`);
+        entries.forEach(entry => console.log(describe(entry)));
+    }
+
+    process.exit(report.failed.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error("Backfill failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+});
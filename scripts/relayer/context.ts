@@ -0,0 +1,300 @@
+import { ethers } from "ethers";
+import fs from 'fs';
+import path from 'path';
+import { loadConfig } from "../deploy/config";
+import { NetworkManager } from "../deploy/networks";
+import { BridgeService } from "../../src/services/BridgeService";
+import { RelayerService } from "../../src/services/RelayerService";
+import { DEFAULT_REQUIRED_CONFIRMATIONS } from "../../src/services/EventIngester";
+import { MonitoringService } from "../../src/utils/MonitoringService";
+import { CursorStore } from "../../src/utils/CursorStore";
+import { RelayHistory } from "../../src/utils/RelayHistory";
+import { MessageDeliveryStore } from "../../src/utils/MessageDeliveryStore";
+import { DeadLetterQueue } from "../../src/utils/DeadLetterQueue";
+import { EpochStore } from "../../src/utils/EpochStore";
+import { DEFAULT_BATCHING_CONFIG, LockBatcher } from "../../src/services/LockBatches";
+import { DEFAULT_RETRY_CONFIG, RetryPolicy } from "../../src/utils/RetryPolicy";
+import { NonceManager } from "../../src/utils/NonceManager";
+import { DEFAULT_FEE_STRATEGY_CONFIG, FeeStrategy, FeeStrategyConfig } from "../../src/utils/FeeStrategy";
+import { ValidatorSet, validatorSetFromConfig } from "../../src/services/ValidatorAttestations";
+import { ChainConfig, NetworkConfig, ValidatorConfig } from "../../src/admin-panel/types/config";
+import { BridgeRole } from "../../src/admin-panel/types/BridgeAdmin";
+import { BRIDGE_LOCK_ABI, BRIDGE_MIRROR_ABI, GOVERNANCE_ABI } from "../../src/services/abis";
+
+// Used only for settings a chain's config entry leaves out
+const DEFAULT_SYNC_BATCH_SIZE = 1000;
+const DEFAULT_MAX_BLOCK_RANGE = 5000;
+export const POLL_INTERVAL = 5000;
+export const DEAD_LETTER_FILE = 'relayer-dead-letters.json';
+export const EPOCH_FILE = 'relayer-epochs.json';
+const STATE_LOCK_FILE = 'relayer.lock';
+// Directory validators publish their attestations to, one file per validator
+export const ATTESTATION_DIR = 'attestations';
+
+// Load the contract addresses written by scripts/deploy/deploy.ts
+const loadDeployments = (
+    environment: string
+): Record<string, { bridge: string; governance: string; deploymentBlock?: number }> => {
+    const deploymentPath = path.join(__dirname, `../../deployments/${environment}/deployment.json`);
+    return JSON.parse(fs.readFileSync(deploymentPath, 'utf-8')).deployments;
+};
+
+// Each chain's bridge, without connecting to it: enough to check attestations offline
+export const loadBridgeAddresses = (environment: string): Map<number, Pick<ChainConfig, 'bridgeAddress'>> =>
+    new Map(Object.entries(loadDeployments(environment))
+        .map(([chainId, addresses]) => [Number(chainId), { bridgeAddress: addresses.bridge }]));
+
+// Relayer state files live next to the environment's deployment
+export const relayerStatePath = (environment: string, file: string): string =>
+    path.join(__dirname, `../../deployments/${environment}`, file);
+
+const isRunning = (pid: number): boolean => {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: alive, but owned by another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+};
+
+// The relayer's state files and wallet belong to one process at a time: the
+// daemon or a maintenance command. Released when the process exits.
+export function acquireStateLock(environment: string, command: string): void {
+    const lockPath = relayerStatePath(environment, STATE_LOCK_FILE);
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+            fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, command }), { flag: 'wx' });
+            process.on('exit', () => fs.rmSync(lockPath, { force: true }));
+            return;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        }
+
+        const holder: { pid: number; command: string } = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+        if (isRunning(holder.pid)) {
+            throw new Error(`Relayer state for ${environment} is held by ${holder.command} (pid ${holder.pid}), stop it before running ${command}`);
+        }
+        // Left behind by a process that did not exit cleanly
+        fs.rmSync(lockPath, { force: true });
+    }
+    throw new Error(`Could not lock the relayer state for ${environment}`);
+}
+
+// The validator keys of config/<environment>.json, as the deploy scripts write them
+// The validators entry of config/<environment>.json, kept apart from the governance roles
+export const loadValidatorSet = (environment: string): ValidatorSet => {
+    const configPath = path.join(__dirname, `../../config/${environment}.json`);
+    const config: { validators?: ValidatorConfig } = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    return validatorSetFromConfig(config.validators);
+};
+
+// Fee caps a chain entry may set, in gwei
+interface FeeCapsGwei {
+    maxFeePerGasGwei?: number | string;
+    maxPriorityFeePerGasGwei?: number | string;
+}
+
+// Chains whose minimum priority fee is above DEFAULT_FEE_STRATEGY_CONFIG's cap, used when their entry sets none
+const DEFAULT_FEE_CAPS_GWEI: Record<number, FeeCapsGwei> = {
+    137: { maxFeePerGasGwei: 3000, maxPriorityFeePerGasGwei: 500 },
+    80001: { maxFeePerGasGwei: 3000, maxPriorityFeePerGasGwei: 500 },
+    80002: { maxFeePerGasGwei: 3000, maxPriorityFeePerGasGwei: 500 }
+};
+
+// A chain entry in config/<environment>.json, with the ingestion and fee settings it may override
+type ChainEntry = ReturnType<typeof loadConfig>['chains'][number]
+    & Partial<Pick<ChainConfig, 'syncBatchSize' | 'maxBlockRange'> & Pick<NetworkConfig, 'requiredConfirmations'>>
+    & FeeCapsGwei;
+
+const feeStrategyConfig = (chain: ChainEntry): FeeStrategyConfig => {
+    const caps = DEFAULT_FEE_CAPS_GWEI[chain.chainId] ?? {};
+    const maxFee = chain.maxFeePerGasGwei ?? caps.maxFeePerGasGwei;
+    const maxPriorityFee = chain.maxPriorityFeePerGasGwei ?? caps.maxPriorityFeePerGasGwei;
+    return {
+        ...DEFAULT_FEE_STRATEGY_CONFIG,
+        ...(maxFee !== undefined && { maxFeePerGasCap: ethers.utils.parseUnits(String(maxFee), 'gwei') }),
+        ...(maxPriorityFee !== undefined && { maxPriorityFeePerGasCap: ethers.utils.parseUnits(String(maxPriorityFee), 'gwei') })
+    };
+};
+
+export interface RelayerContext {
+    networkManager: NetworkManager;
+    services: Map<number, BridgeService>;
+    chains: Map<number, ChainConfig>;
+    networks: Map<number, Pick<NetworkConfig, 'requiredConfirmations'>>;
+    monitoring: MonitoringService;
+    nonceManager: NonceManager;
+    relayer: RelayerService;
+}
+
+export interface ChainConnections {
+    networkManager: NetworkManager;
+    chains: Map<number, ChainConfig>;
+    networks: Map<number, Pick<NetworkConfig, 'requiredConfirmations'>>;
+    fees: Map<number, FeeStrategyConfig>;
+}
+
+// Connected providers and per-chain ingestion settings, shared by the relayer and validators
+export async function connectChains(environment: string): Promise<ChainConnections> {
+    const config = loadConfig(environment);
+    const deployments = loadDeployments(environment);
+
+    const networkManager = new NetworkManager();
+    await networkManager.initializeNetworks(config.chains);
+    await networkManager.verifyChainConnections();
+
+    const chains = new Map<number, ChainConfig>();
+    const networks = new Map<number, Pick<NetworkConfig, 'requiredConfirmations'>>();
+    const fees = new Map<number, FeeStrategyConfig>();
+    for (const chain of config.chains as ChainEntry[]) {
+        const addresses = deployments[chain.chainId];
+        if (!addresses) {
+            throw new Error(`Missing deployment for chain ${chain.chainId}`);
+        }
+
+        chains.set(chain.chainId, {
+            bridgeAddress: addresses.bridge,
+            governanceAddress: addresses.governance,
+            deploymentBlock: addresses.deploymentBlock ?? 0,
+            syncBatchSize: chain.syncBatchSize ?? DEFAULT_SYNC_BATCH_SIZE,
+            maxBlockRange: chain.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE
+        });
+        networks.set(chain.chainId, { requiredConfirmations: chain.requiredConfirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS });
+        fees.set(chain.chainId, feeStrategyConfig(chain));
+    }
+
+    return { networkManager, chains, networks, fees };
+}
+
+const bridgeInterface = new ethers.utils.Interface([...BRIDGE_MIRROR_ABI, ...BRIDGE_LOCK_ABI]);
+const governanceInterface = new ethers.utils.Interface(GOVERNANCE_ABI);
+
+// The relayer over the environment's state files
+function createRelayer(
+    environment: string,
+    { networkManager, chains, networks }: ChainConnections,
+    services: Map<number, BridgeService>,
+    monitoring: MonitoringService,
+    retryPolicy?: RetryPolicy
+): RelayerService {
+    // RELAYER_BATCH_SIZE > 0 switches to committing Merkle roots per epoch instead of unlocking each lock
+    const batchSize = Number(process.env.RELAYER_BATCH_SIZE || 0);
+    const batcher = batchSize > 0
+        ? new LockBatcher(new EpochStore(relayerStatePath(environment, EPOCH_FILE)), { ...DEFAULT_BATCHING_CONFIG, maxBatchSize: batchSize })
+        : undefined;
+
+    return new RelayerService(
+        networkManager,
+        services,
+        monitoring,
+        {
+            chains,
+            cursorStore: new CursorStore(relayerStatePath(environment, 'relayer-cursors.json')),
+            pollInterval: POLL_INTERVAL,
+            networks
+        },
+        new RelayHistory(relayerStatePath(environment, 'relayer-history.json')),
+        retryPolicy,
+        new MessageDeliveryStore(relayerStatePath(environment, 'relayer-deliveries.json')),
+        new DeadLetterQueue(relayerStatePath(environment, DEAD_LETTER_FILE)),
+        batcher
+    );
+}
+
+/**
+ * A relayer that can only assess logs against the stored state: no state
+ * lock and no wallet, so it runs beside the daemon and without a key. Its
+ * services have no signers and it must not be started.
+ */
+export async function createReadOnlyRelayerContext(
+    environment: string
+): Promise<Pick<RelayerContext, 'networkManager' | 'chains' | 'networks' | 'relayer'>> {
+    const connections = await connectChains(environment);
+    const { networkManager, chains, networks } = connections;
+
+    const services = new Map<number, BridgeService>();
+    let monitoring: MonitoringService | undefined;
+    for (const [chainId, chain] of chains) {
+        const provider = networkManager.getProvider(chainId);
+        monitoring = monitoring || new MonitoringService(provider, chain.bridgeAddress);
+        services.set(chainId, new BridgeService(
+            provider,
+            chain.bridgeAddress,
+            chain.governanceAddress,
+            bridgeInterface,
+            governanceInterface,
+            monitoring,
+            {},
+            undefined,
+            undefined,
+            chain.deploymentBlock
+        ));
+    }
+
+    if (!monitoring) {
+        throw new Error(`No chains configured for environment: ${environment}`);
+    }
+
+    return { networkManager, chains, networks, relayer: createRelayer(environment, connections, services, monitoring) };
+}
+
+// Everything the relayer daemon and the maintenance commands share for one environment
+export async function createRelayerContext(environment: string): Promise<RelayerContext> {
+    acquireStateLock(environment, path.basename(process.argv[1] ?? 'relayer'));
+    const connections = await connectChains(environment);
+    const { networkManager, chains, networks, fees } = connections;
+
+    const services = new Map<number, BridgeService>();
+    // One ledger per (chain, relayer wallet), shared by every service sending from it
+    const nonceManager = new NonceManager();
+    let monitoring: MonitoringService | undefined;
+
+    for (const [chainId, chain] of chains) {
+        const provider = networkManager.getProvider(chainId);
+        // A single monitoring instance sees both legs of every relay
+        monitoring = monitoring || new MonitoringService(provider, chain.bridgeAddress);
+
+        const feeStrategy = new FeeStrategy(provider, fees.get(chainId));
+        feeStrategy.on('replaced', ({ nonce, previousHash, replacementHash }) => {
+            console.warn(`Chain ${chainId}: replaced stuck transaction ${previousHash} (nonce ${nonce}) with ${replacementHash}`);
+        });
+        feeStrategy.on('feeCapReached', ({ nonce, hash }) => {
+            console.error(`Chain ${chainId}: cannot bump ${hash} (nonce ${nonce}) without exceeding the fee cap`);
+        });
+        feeStrategy.on('gaveUp', ({ nonce, hash }) => {
+            console.error(`Chain ${chainId}: gave up waiting for ${hash} (nonce ${nonce}) at the fee cap; raise the chain's caps and requeue`);
+        });
+
+        services.set(chainId, new BridgeService(
+            provider,
+            chain.bridgeAddress,
+            chain.governanceAddress,
+            bridgeInterface,
+            governanceInterface,
+            monitoring,
+            { [BridgeRole.OPERATOR]: new ethers.Wallet(process.env.RELAYER_PRIVATE_KEY || '', provider) },
+            nonceManager,
+            feeStrategy,
+            chain.deploymentBlock
+        ));
+    }
+
+    if (!monitoring) {
+        throw new Error(`No chains configured for environment: ${environment}`);
+    }
+
+    const retryPolicy = new RetryPolicy(DEFAULT_RETRY_CONFIG);
+    retryPolicy.on('retry', ({ label, attempt, delay, error }) => {
+        console.warn(`Retrying ${label} in ${delay}ms (attempt ${attempt}):`, error instanceof Error ? error.message : error);
+    });
+    retryPolicy.on('operatorAction', ({ label, error }) => {
+        console.error(`${label} needs operator action:`, error instanceof Error ? error.message : error);
+    });
+
+    const relayer = createRelayer(environment, connections, services, monitoring, retryPolicy);
+
+    return { networkManager, services, chains, networks, monitoring, nonceManager, relayer };
+}
@@ -0,0 +1,69 @@
+import { DeadLetter, DeadLetterQueue } from "../../src/utils/DeadLetterQueue";
+import { acquireStateLock, createRelayerContext, DEAD_LETTER_FILE, relayerStatePath } from "./context";
+require('dotenv').config();
+
+const USAGE = "Usage: dead-letters.ts list | inspect <id> | requeue <id> | requeue --all | discard <id>";
+
+const summarize = (entry: DeadLetter) =>
+    `${entry.id}  ${entry.kind}  ${entry.sourceChainId} -> ${entry.targetChainId ?? '?'}  ` +
+    `${entry.errorType ?? entry.failure}  ${entry.status}  attempts: ${entry.attempts.length}  since ${entry.createdAt}`;
+
+async function main() {
+    const [command, id] = process.argv.slice(2);
+    const environment = process.env.DEPLOY_ENV || 'local';
+    // Only requeue needs chain connections; the other commands work on the stored queue alone
+    const queue = new DeadLetterQueue(relayerStatePath(environment, DEAD_LETTER_FILE));
+
+    if (command === 'list') {
+        const entries = queue.list();
+        console.log(`${entries.length} dead-lettered relay(s)`);
+        entries.forEach(entry => console.log(summarize(entry)));
+        return;
+    }
+
+    if (command === 'requeue' && id === '--all') {
+        const { relayer } = await createRelayerContext(environment);
+        const parked = queue.list('parked');
+        for (const entry of parked) {
+            // One at a time, so a relay that fails again does not hold up the rest
+            const outcome = await relayer.requeue(entry.id);
+            console.log(`Requeued ${entry.id}: ${outcome}`);
+        }
+        const stillParked = parked.filter(entry => queue.isParked(entry.id));
+        console.log(`Requeued ${parked.length} relay(s), ${stillParked.length} parked again`);
+        process.exit(stillParked.length > 0 ? 1 : 0);
+    }
+
+    if (!id || !['inspect', 'requeue', 'discard'].includes(command)) {
+        throw new Error(USAGE);
+    }
+
+    const entry = queue.get(id);
+    if (!entry) {
+        throw new Error(`No dead-lettered relay with ID ${id}`);
+    }
+
+    switch (command) {
+        case 'inspect':
+            console.log(JSON.stringify(entry, null, 2));
+            break;
+        case 'discard':
+            // A running relayer rewrites the same file
+            acquireStateLock(environment, 'dead-letters discard');
+            queue.remove(id);
+            console.log(`Discarded ${id}`);
+            break;
+        case 'requeue': {
+            const { relayer } = await createRelayerContext(environment);
+            const outcome = await relayer.requeue(id);
+            console.log(`Requeued ${id}: ${outcome}`);
+            // The relayer writes the same file, so a repeat failure shows up here
+            process.exit(queue.isParked(id) ? 1 : 0);
+        }
+    }
+}
+
+main().catch((error) => {
+    console.error("Dead-letter command failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+});
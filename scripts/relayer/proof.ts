@@ -0,0 +1,26 @@
+import { LockBatcher, verifyInclusionProof } from "../../src/services/LockBatches";
+import { EpochStore } from "../../src/utils/EpochStore";
+import { EPOCH_FILE, relayerStatePath } from "./context";
+require('dotenv').config();
+
+// Prints the inclusion proof a recipient needs to claim a batched lock
+async function main() {
+    const [lockId] = process.argv.slice(2);
+    if (!lockId) {
+        throw new Error("Usage: proof.ts <lockId>");
+    }
+
+    const environment = process.env.DEPLOY_ENV || 'local';
+    const batcher = new LockBatcher(new EpochStore(relayerStatePath(environment, EPOCH_FILE)));
+    const proof = batcher.getInclusionProof(lockId);
+
+    if (!verifyInclusionProof(proof)) {
+        throw new Error(`Stored epoch ${proof.epochId} does not produce a valid proof for ${lockId}`);
+    }
+    console.log(JSON.stringify(proof, null, 2));
+}
+
+main().catch((error) => {
+    console.error("Proof lookup failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+});
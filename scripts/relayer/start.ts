@@ -0,0 +1,60 @@
+import { createRelayerContext, POLL_INTERVAL } from "./context";
+require('dotenv').config();
+
+async function main() {
+    const environment = process.env.DEPLOY_ENV || 'local';
+    const { services, nonceManager, relayer } = await createRelayerContext(environment);
+
+    relayer.on('relayed', lock => {
+        console.log(`Relayed ${lock.lockId}: ${lock.sourceChainId} -> ${lock.targetChainId}`);
+    });
+    relayer.on('relayFailed', ({ lock, error, failure }) => {
+        console.error(`Relay of ${lock.lockId} failed (${failure}):`, error instanceof Error ? error.message : error);
+    });
+    relayer.on('delivered', ({ message, txHash }) => {
+        console.log(`Delivered message ${message.messageId} from chain ${message.sourceChainId} in ${txHash}`);
+    });
+    relayer.on('deliveryFailed', ({ message, error, failure }) => {
+        console.error(`Delivery of message ${message.messageId} failed (${failure}):`, error instanceof Error ? error.message : error);
+    });
+    relayer.on('skipped', ({ lock, message, reason }) => {
+        console.log(`Skipped ${lock ? lock.lockId : message.messageId}: ${reason}`);
+    });
+    relayer.on('deadLettered', entry => {
+        console.error(`Dead-lettered ${entry.id} after ${entry.attempts.length} attempt(s): ${entry.errorType ?? entry.failure}`);
+    });
+    relayer.on('batched', ({ lock, epochId }) => {
+        console.log(`Batched ${lock.lockId} into epoch ${epochId}`);
+    });
+    relayer.on('epochCommitted', epoch => {
+        console.log(`Committed epoch ${epoch.id} (${epoch.locks.length} locks, root ${epoch.root}) in ${epoch.commitTxHash}`);
+    });
+    relayer.on('epochFailed', ({ epoch, error, failure }) => {
+        console.error(`Commit of epoch ${epoch.id} failed (${failure}):`, error instanceof Error ? error.message : error);
+    });
+    relayer.on('reorg', ({ chainId, blockNumber, lockIds }) => {
+        console.warn(`Reorg on chain ${chainId} from block ${blockNumber}, retracted locks: ${lockIds.join(', ') || 'none'}`);
+    });
+
+    relayer.start();
+    const reconcileTimer = setInterval(() => {
+        nonceManager.reconcile()
+            .then(dropped => dropped.length > 0 && console.warn(`Reusing nonces of dropped transactions: ${dropped.join(', ')}`))
+            .catch(error => console.error("Nonce reconciliation failed:", error instanceof Error ? error.message : error));
+    }, POLL_INTERVAL);
+    console.log(`Relayer watching chains: ${Array.from(services.keys()).join(', ')}`);
+
+    const shutdown = () => {
+        console.log("Stopping relayer");
+        clearInterval(reconcileTimer);
+        relayer.stop();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+    console.error("Relayer failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+});
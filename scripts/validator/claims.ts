@@ -0,0 +1,26 @@
+import { AttestationAggregator, AttestationStore, encodeThresholdClaim } from "../../src/services/ValidatorAttestations";
+import { ATTESTATION_DIR, loadBridgeAddresses, loadValidatorSet, relayerStatePath } from "../relayer/context";
+require('dotenv').config();
+
+// Prints every lock whose attestations have reached the threshold, with the claim payload to submit
+async function main() {
+    const environment = process.env.DEPLOY_ENV || 'local';
+    const validatorSet = loadValidatorSet(environment);
+    const aggregator = new AttestationAggregator(
+        validatorSet,
+        new AttestationStore(relayerStatePath(environment, ATTESTATION_DIR)),
+        loadBridgeAddresses(environment)
+    );
+
+    const claims = aggregator.ready();
+    console.log(`${claims.length} lock(s) with ${validatorSet.threshold}-of-${validatorSet.validators.length} attestations`);
+    for (const claim of claims) {
+        console.log(`${claim.lock.lockId} (${claim.lock.sourceChainId} -> ${claim.lock.targetChainId}) signed by ${claim.signers.join(', ')}`);
+        console.log(`  ${encodeThresholdClaim(claim)}`);
+    }
+}
+
+main().catch((error) => {
+    console.error("Claim aggregation failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,52 @@
+import { ethers } from "ethers";
+import { AttestationStore, ValidatorService } from "../../src/services/ValidatorAttestations";
+import { CursorStore } from "../../src/utils/CursorStore";
+import { ATTESTATION_DIR, connectChains, loadValidatorSet, POLL_INTERVAL, relayerStatePath } from "../relayer/context";
+require('dotenv').config();
+
+async function main() {
+    const environment = process.env.DEPLOY_ENV || 'local';
+    const { networkManager, chains, networks } = await connectChains(environment);
+
+    const signer = new ethers.Wallet(process.env.VALIDATOR_PRIVATE_KEY || '');
+    const { validators, threshold } = loadValidatorSet(environment);
+    if (!validators.includes(signer.address)) {
+        throw new Error(`${signer.address} is not a configured validator for environment: ${environment}`);
+    }
+
+    const validator = new ValidatorService(
+        signer,
+        networkManager,
+        chains,
+        // Each validator tracks its own progress; only the attestations are shared
+        new CursorStore(relayerStatePath(environment, `validator-${signer.address}-cursors.json`)),
+        new AttestationStore(relayerStatePath(environment, ATTESTATION_DIR)),
+        networks
+    );
+
+    validator.on('attested', ({ lock, envelopeHash }) => {
+        console.log(`Attested ${lock.lockId} (${lock.sourceChainId} -> ${lock.targetChainId}): ${envelopeHash}`);
+    });
+    validator.on('retracted', ({ chainId, blockNumber, lockIds }) => {
+        console.warn(`Reorg on chain ${chainId} from block ${blockNumber}, retracted attestations: ${lockIds.join(', ') || 'none'}`);
+    });
+    validator.on('error', error => {
+        console.error("Validator error:", error instanceof Error ? error.message : error);
+    });
+
+    validator.start(POLL_INTERVAL);
+    console.log(`Validator ${signer.address} (${threshold}-of-${validators.length}) watching chains: ${Array.from(chains.keys()).join(', ')}`);
+
+    const shutdown = () => {
+        console.log("Stopping validator");
+        validator.stop();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+    console.error("Validator failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+});
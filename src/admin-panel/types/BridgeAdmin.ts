@@ -29,6 +29,8 @@ export interface PendingTransaction {
     requiredSignatures: number;
     proposedAt: number;
     signers: string[];
+    // The proposing transaction was not a direct proposeTransaction call; target, value and data are its own
+    undecoded?: boolean;
 }
 
 export interface BridgeStats {
@@ -53,6 +53,11 @@ export interface BridgeConfig {
     retry: RetryConfig;
 }
 
+export interface ValidatorConfig {
+    addresses: string[];
+    threshold: number;
+}
+
 export interface ChainConfig {
     bridgeAddress: string;
     governanceAddress: string;
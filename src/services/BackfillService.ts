@@ -0,0 +1,157 @@
+import { ethers } from "ethers";
+import { ChainConfig } from "../admin-panel/types/config";
+import { lockEventInterface, LOCK_EVENT_TOPICS } from "./LockEvents";
+import { getMessageId, TRANSACTION_MIRRORED_TOPIC } from "./MirroredMessages";
+import { RelayerService, RelayOutcome } from "./RelayerService";
+
+export interface BackfillOptions {
+    chainId: number;
+    fromBlock: number;
+    toBlock: number;
+    // Event names to replay, all relayed events when omitted
+    events?: string[];
+    // Work out outcomes without submitting or recording anything
+    dryRun?: boolean;
+}
+
+export interface BackfillEntry {
+    // lockId for locks, messageId for mirrored messages
+    id: string;
+    event: string;
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+    outcome: RelayOutcome | 'notRelayable';
+}
+
+export interface BackfillReport {
+    chainId: number;
+    fromBlock: number;
+    // Lowered to the newest block with the required confirmations
+    toBlock: number;
+    dryRun: boolean;
+    scanned: number;
+    alreadyProcessed: BackfillEntry[];
+    // In a dry run: would be relayed. Includes locks added to an epoch in batching mode
+    relayed: BackfillEntry[];
+    skipped: BackfillEntry[];
+    failed: BackfillEntry[];
+}
+
+// Event name -> topic for everything the relayer acts on
+const REPLAYABLE_EVENTS: Record<string, string> = {
+    ...Object.fromEntries(LOCK_EVENT_TOPICS.map(topic => [lockEventInterface.getEvent(topic).name, topic])),
+    TransactionMirrored: TRANSACTION_MIRRORED_TOPIC
+};
+
+/**
+ * Re-runs a historical block range of one chain through the relayer, for
+ * catching up after downtime or a misconfiguration. The relayer's own history
+ * keeps already-handled transfers from being submitted again. Like the
+ * EventIngester, only logs with requiredConfirmations from canonical blocks
+ * are replayed.
+ */
+export class BackfillService {
+    private readonly provider: ethers.providers.Provider;
+    private readonly config: ChainConfig;
+    private readonly relayer: RelayerService;
+    private readonly requiredConfirmations: number;
+
+    constructor(provider: ethers.providers.Provider, config: ChainConfig, relayer: RelayerService, requiredConfirmations: number = 0) {
+        this.provider = provider;
+        this.config = config;
+        this.relayer = relayer;
+        this.requiredConfirmations = requiredConfirmations;
+    }
+
+    public async run({ chainId, fromBlock, toBlock, events, dryRun = false }: BackfillOptions): Promise<BackfillReport> {
+        if (fromBlock > toBlock) {
+            throw new Error(`Invalid block range: ${fromBlock} > ${toBlock}`);
+        }
+
+        const names = events && events.length > 0 ? events : Object.keys(REPLAYABLE_EVENTS);
+        const unknown = names.filter(name => !REPLAYABLE_EVENTS[name]);
+        if (unknown.length > 0) {
+            throw new Error(`Unknown events: ${unknown.join(', ')}. Expected any of: ${Object.keys(REPLAYABLE_EVENTS).join(', ')}`);
+        }
+        const topics = names.map(name => REPLAYABLE_EVENTS[name]);
+
+        // The head block has one confirmation
+        const safeHead = await this.provider.getBlockNumber() - Math.max(this.requiredConfirmations - 1, 0);
+        if (fromBlock > safeHead) {
+            throw new Error(`Block ${fromBlock} does not have ${this.requiredConfirmations} confirmations yet (newest confirmed block: ${safeHead})`);
+        }
+        toBlock = Math.min(toBlock, safeHead);
+
+        const report: BackfillReport = {
+            chainId,
+            fromBlock,
+            toBlock,
+            dryRun,
+            scanned: 0,
+            alreadyProcessed: [],
+            relayed: [],
+            skipped: [],
+            failed: []
+        };
+
+        const windowSize = Math.max(1, this.config.maxBlockRange);
+        for (let start = fromBlock; start <= toBlock; start += windowSize) {
+            const logs = await this.provider.getLogs({
+                address: this.config.bridgeAddress,
+                topics: [topics],
+                fromBlock: start,
+                toBlock: Math.min(start + windowSize - 1, toBlock)
+            });
+            logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+            const canonicalHashes = new Map<number, string | undefined>();
+            for (const log of logs) {
+                if (!canonicalHashes.has(log.blockNumber)) {
+                    canonicalHashes.set(log.blockNumber, (await this.provider.getBlock(log.blockNumber))?.hash);
+                }
+                // Stop rather than relay from an orphaned block; handled logs are skipped when run again
+                if (canonicalHashes.get(log.blockNumber) !== log.blockHash) {
+                    throw new Error(`Chain ${chainId} reorganized at block ${log.blockNumber} during the backfill, run it again once the chain settles`);
+                }
+
+                const outcome = dryRun
+                    ? await this.relayer.assessLog(chainId, log)
+                    : await this.relayer.handleLog(chainId, log);
+                this.record(report, chainId, log, outcome ?? 'notRelayable');
+            }
+        }
+
+        return report;
+    }
+
+    private record(report: BackfillReport, chainId: number, log: ethers.providers.Log, outcome: BackfillEntry['outcome']): void {
+        const isMessage = log.topics[0] === TRANSACTION_MIRRORED_TOPIC;
+        const entry: BackfillEntry = {
+            id: isMessage ? getMessageId(chainId, log.transactionHash, log.logIndex) : log.topics[1],
+            event: Object.keys(REPLAYABLE_EVENTS).find(name => REPLAYABLE_EVENTS[name] === log.topics[0]) ?? 'unknown',
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            logIndex: log.logIndex,
+            outcome
+        };
+
+        report.scanned++;
+        switch (outcome) {
+            case 'relayed':
+            case 'batched':
+                report.relayed.push(entry);
+                break;
+            case 'failed':
+                report.failed.push(entry);
+                break;
+            case 'alreadyRelayed':
+            case 'alreadyProcessed':
+            case 'alreadyDelivered':
+                report.alreadyProcessed.push(entry);
+                break;
+            default:
+                report.skipped.push(entry);
+        }
+    }
+}
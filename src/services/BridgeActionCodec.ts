@@ -0,0 +1,182 @@
+import { ethers } from "ethers";
+import { BridgeAction, BridgeRole } from "../admin-panel/types/BridgeAdmin";
+import { BridgeError, BridgeErrorType } from "../utils/BridgeErrors";
+
+export interface ProposalCall {
+    target: string;
+    value: ethers.BigNumber;
+    data: string;
+}
+
+const BRIDGE_ACTION_ABI = [
+    "function toggleFeature(string feature, bool enabled)",
+    "function updateSupportedChain(uint256 chainId, bool supported)"
+];
+
+const GOVERNANCE_ACTION_ABI = [
+    "function assignRole(address account, uint8 role)",
+    "function revokeRole(address account)",
+    "function updateThreshold(uint256 newThreshold)"
+];
+
+/**
+ * Translates governance-level BridgeActions to and from the raw
+ * (target, value, data) triples that IBridgeGovernance.proposeTransaction takes.
+ */
+export class BridgeActionCodec {
+    private readonly bridgeAddress: string;
+    private readonly governanceAddress: string;
+    private readonly bridgeInterface = new ethers.utils.Interface(BRIDGE_ACTION_ABI);
+    private readonly governanceInterface = new ethers.utils.Interface(GOVERNANCE_ACTION_ABI);
+
+    constructor(bridgeAddress: string, governanceAddress: string) {
+        this.bridgeAddress = ethers.utils.getAddress(bridgeAddress);
+        this.governanceAddress = ethers.utils.getAddress(governanceAddress);
+    }
+
+    encode(action: BridgeAction): ProposalCall {
+        const { params } = action;
+
+        switch (action.type) {
+            case 'TOGGLE_FEATURE':
+                return this.call(
+                    this.bridgeAddress,
+                    this.bridgeInterface.encodeFunctionData("toggleFeature", [params.feature, params.enabled])
+                );
+            case 'UPDATE_CHAIN':
+                return this.call(
+                    this.bridgeAddress,
+                    this.bridgeInterface.encodeFunctionData("updateSupportedChain", [params.chainId, params.supported])
+                );
+            case 'UPDATE_ROLE':
+                // `in` alone would also accept the enum's reverse-mapped names, e.g. "ADMIN"
+                if (!(typeof params.role === 'number' && params.role in BridgeRole)) {
+                    throw new BridgeError({
+                        type: BridgeErrorType.InvalidRole,
+                        message: `Invalid role: ${params.role}`,
+                        details: { role: params.role }
+                    });
+                }
+                return this.call(
+                    this.governanceAddress,
+                    params.role === BridgeRole.NONE
+                        ? this.governanceInterface.encodeFunctionData("revokeRole", [params.account])
+                        : this.governanceInterface.encodeFunctionData("assignRole", [params.account, params.role])
+                );
+            case 'UPDATE_THRESHOLD':
+                return this.call(
+                    this.governanceAddress,
+                    this.governanceInterface.encodeFunctionData("updateThreshold", [params.threshold])
+                );
+            default:
+                throw new BridgeError({
+                    type: BridgeErrorType.OperationNotSupported,
+                    message: `Unsupported bridge action: ${(action as BridgeAction).type}`
+                });
+        }
+    }
+
+    decode(call: { target: string; data: string; value?: ethers.BigNumberish }): BridgeAction {
+        const target = ethers.utils.getAddress(call.target);
+
+        if (call.value !== undefined && !ethers.BigNumber.from(call.value).isZero()) {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidData,
+                message: `Bridge actions never carry value, got ${call.value.toString()}`,
+                details: { target, value: call.value.toString() }
+            });
+        }
+
+        const contractInterface = target === this.bridgeAddress
+            ? this.bridgeInterface
+            : target === this.governanceAddress ? this.governanceInterface : undefined;
+        if (!contractInterface) {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidDestination,
+                message: `Proposal target ${target} is neither the bridge nor its governance`,
+                details: { target }
+            });
+        }
+
+        let parsed: ethers.utils.TransactionDescription;
+        try {
+            parsed = contractInterface.parseTransaction({ data: call.data });
+        } catch {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidData,
+                message: `Calldata ${call.data.slice(0, 10)} is not a known action on ${target}`,
+                details: { target, selector: call.data.slice(0, 10) }
+            });
+        }
+
+        return BridgeActionCodec.fromCall(parsed);
+    }
+
+    static describe(action: Pick<BridgeAction, 'type' | 'params'>): string {
+        const { params } = action;
+
+        switch (action.type) {
+            case 'TOGGLE_FEATURE':
+                return `${params.enabled ? 'Enable' : 'Disable'} feature "${params.feature}"`;
+            case 'UPDATE_CHAIN':
+                return `${params.supported ? 'Add' : 'Remove'} support for chain ${params.chainId}`;
+            case 'UPDATE_ROLE':
+                return params.role === BridgeRole.NONE
+                    ? `Revoke role from ${params.account}`
+                    : `Assign ${BridgeRole[params.role]} role to ${params.account}`;
+            case 'UPDATE_THRESHOLD':
+                return `Set signature threshold to ${params.threshold}`;
+        }
+    }
+
+    private static fromCall(parsed: ethers.utils.TransactionDescription): BridgeAction {
+        let action: Pick<BridgeAction, 'type' | 'params'>;
+
+        switch (parsed.name) {
+            case "toggleFeature":
+                action = { type: 'TOGGLE_FEATURE', params: { feature: parsed.args.feature, enabled: parsed.args.enabled } };
+                break;
+            case "updateSupportedChain":
+                action = {
+                    type: 'UPDATE_CHAIN',
+                    params: { chainId: this.toNumber(parsed, "chainId"), supported: parsed.args.supported }
+                };
+                break;
+            case "assignRole":
+                action = { type: 'UPDATE_ROLE', params: { account: parsed.args.account, role: parsed.args.role } };
+                break;
+            case "revokeRole":
+                action = { type: 'UPDATE_ROLE', params: { account: parsed.args.account, role: BridgeRole.NONE } };
+                break;
+            case "updateThreshold":
+                action = { type: 'UPDATE_THRESHOLD', params: { threshold: this.toNumber(parsed, "newThreshold") } };
+                break;
+            default:
+                throw new BridgeError({
+                    type: BridgeErrorType.OperationNotSupported,
+                    message: `Unsupported bridge action call: ${parsed.name}`,
+                    details: { name: parsed.name, selector: parsed.sighash }
+                });
+        }
+
+        return { ...action, description: this.describe(action) };
+    }
+
+    // uint256 arguments that BridgeAction params hold as plain numbers
+    private static toNumber(parsed: ethers.utils.TransactionDescription, arg: string): number {
+        const value: ethers.BigNumber = parsed.args[arg];
+        try {
+            return value.toNumber();
+        } catch {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidData,
+                message: `${parsed.name} ${arg} ${value.toString()} is out of range`,
+                details: { name: parsed.name, [arg]: value.toString() }
+            });
+        }
+    }
+
+    private call(target: string, data: string): ProposalCall {
+        return { target, value: ethers.constants.Zero, data };
+    }
+}
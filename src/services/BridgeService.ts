@@ -1,5 +1,22 @@
 import { ethers } from "ethers";
 import { MonitoringService } from "../utils/MonitoringService";
+import { NonceManager } from "../utils/NonceManager";
+import { FeeStrategy, TransactionReplacement } from "../utils/FeeStrategy";
+import { BridgeError, BridgeErrorType } from "../utils/BridgeErrors";
+import { BridgeAction, BridgeRole, PendingTransaction } from "../admin-panel/types/BridgeAdmin";
+import { BridgeActionCodec } from "./BridgeActionCodec";
+import { ProposalReview, ProposalReviewer } from "./ProposalReviewer";
+import { OffChainProposal, OffChainSignatureCollector } from "./OffChainSignatures";
+import { ClaimProof, encodeClaimProof, getProofHash, verifyClaimProof } from "./ClaimProofs";
+import {
+    BRIDGE_MIRROR_ABI,
+    ERC20_ABI,
+    ERC721_ABI,
+    ERC1155_ABI,
+    ERC4626_ABI,
+    ERC777_ABI,
+    GOVERNANCE_ABI
+} from "./abis";
 
 interface TransactionEvent extends Omit<ethers.Event, 'args'> {
     args: ethers.utils.Result & {
@@ -7,6 +24,77 @@ interface TransactionEvent extends Omit<ethers.Event, 'args'> {
     };
 }
 
+export interface LockResult {
+    lockId: string;
+    amount: ethers.BigNumber;
+    targetChainId: number;
+    recipient: string;
+}
+
+export interface NFTLockResult {
+    lockId: string;
+    collection: string;
+    tokenIds: ethers.BigNumber[];
+    amounts: ethers.BigNumber[];
+    targetChainId: number;
+    recipient: string;
+}
+
+export interface VaultQuote {
+    vault: string;
+    asset: string;
+    assets: ethers.BigNumber;
+    shares: ethers.BigNumber;
+    redeemableAssets: ethers.BigNumber;
+}
+
+export interface VaultBridgeResult {
+    quote: VaultQuote;
+    lock: LockResult;
+}
+
+export interface ERC777TransferResult extends LockResult {
+    holder: string;
+    userData: string;
+    operatorData: string;
+}
+
+export interface UnlockResult {
+    lockId: string;
+    txHash?: string;
+    // The contract had already released this lock, so nothing was sent
+    alreadyProcessed: boolean;
+}
+
+export interface GasEstimate {
+    gasLimit: ethers.BigNumber;
+    gasPrice: ethers.BigNumber;
+    cost: ethers.BigNumber;
+}
+
+export interface BridgeQuote {
+    asset: string;
+    amount: ethers.BigNumber;
+    targetChainId: number;
+    // bridgeAsset does not deduct the asset's configured bridgeFee, so this is the full amount
+    netAmount: ethers.BigNumber;
+    // Despite the name, BridgeMirror enforces this per bridgeAsset call, not per day.
+    // Undefined on deployments that predate getAssetInfo
+    dailyLimit?: ethers.BigNumber;
+    // Without dailyLimit, whether a simulated bridgeAsset call succeeds
+    withinLimits: boolean;
+    sourceGas?: GasEstimate;
+    targetGas?: GasEstimate;
+}
+
+export type BridgeSigners = Partial<Record<BridgeRole, ethers.Signer>>;
+
+// Reverts meaning the unlock already happened, which a retried relay should treat as done
+const ALREADY_PROCESSED_ERRORS = [
+    BridgeErrorType.LockAlreadyProcessed,
+    BridgeErrorType.TransactionAlreadyProcessed
+];
+
 export class BridgeService {
     private provider: ethers.providers.Provider;
     private bridgeAddress: string;
@@ -14,6 +102,14 @@ export class BridgeService {
     private bridgeInterface: ethers.utils.Interface;
     private governanceInterface: ethers.utils.Interface;
     private monitoringService: MonitoringService;
+    private nonceManager?: NonceManager;
+    private feeStrategy?: FeeStrategy;
+    private actionCodec: BridgeActionCodec;
+    private proposalReviewer: ProposalReviewer;
+    private acknowledgedReviews: Set<string>;
+    private signers: Map<BridgeRole, ethers.Signer>;
+    // Where claim lookups start: the bridge has no AssetClaimed events before it
+    private deploymentBlock: number;
 
     constructor(
         provider: ethers.providers.Provider,
@@ -21,7 +117,11 @@ export class BridgeService {
         governanceAddress: string,
         bridgeInterface: ethers.utils.Interface,
         governanceInterface: ethers.utils.Interface,
-        monitoringService: MonitoringService
+        monitoringService: MonitoringService,
+        signers: BridgeSigners = {},
+        nonceManager?: NonceManager,
+        feeStrategy?: FeeStrategy,
+        deploymentBlock: number = 0
     ) {
         this.provider = provider;
         this.bridgeAddress = bridgeAddress;
@@ -29,6 +129,327 @@ export class BridgeService {
         this.bridgeInterface = bridgeInterface;
         this.governanceInterface = governanceInterface;
         this.monitoringService = monitoringService;
+        this.nonceManager = nonceManager;
+        this.feeStrategy = feeStrategy;
+        this.deploymentBlock = deploymentBlock;
+        this.actionCodec = new BridgeActionCodec(bridgeAddress, governanceAddress);
+        this.proposalReviewer = new ProposalReviewer(provider, bridgeAddress, governanceAddress);
+        this.acknowledgedReviews = new Set();
+        this.signers = new Map();
+
+        // Monitoring follows a transaction to whichever replacement gets mined
+        feeStrategy?.on("replaced", ({ previousHash, replacementHash }: TransactionReplacement) => {
+            this.monitoringService.recordReplacement(previousHash, replacementHash);
+        });
+
+        for (const [role, signer] of Object.entries(signers)) {
+            if (signer) {
+                this.setSigner(Number(role) as BridgeRole, signer);
+            }
+        }
+    }
+
+    setSigner(role: BridgeRole, signer: ethers.Signer): void {
+        if (role === BridgeRole.NONE) {
+            throw new Error("Cannot assign a signer to BridgeRole.NONE");
+        }
+        // Signers created without a provider are bound to ours so they can send
+        const connected = signer.provider ? signer : signer.connect(this.provider);
+        const managed = this.nonceManager ? this.nonceManager.wrap(connected) : connected;
+        this.signers.set(role, this.feeStrategy ? this.feeStrategy.wrap(managed) : managed);
+    }
+
+    getBridgeAddress(): string {
+        return this.bridgeAddress;
+    }
+
+    hasSigner(role: BridgeRole): boolean {
+        return this.signers.has(role);
+    }
+
+    private getSigner(role: BridgeRole, action: string): ethers.Signer {
+        const signer = this.signers.get(role);
+        if (!signer) {
+            throw new BridgeError({
+                type: BridgeErrorType.Unauthorized,
+                message: `No ${BridgeRole[role]} signer configured for ${action}`,
+                details: { action, requiredRole: role }
+            });
+        }
+        return signer;
+    }
+
+    private getBridge(role: BridgeRole, action: string): ethers.Contract {
+        return new ethers.Contract(this.bridgeAddress, this.bridgeInterface, this.getSigner(role, action));
+    }
+
+    private getGovernance(role: BridgeRole, action: string): ethers.Contract {
+        return new ethers.Contract(this.governanceAddress, this.governanceInterface, this.getSigner(role, action));
+    }
+
+    private reviewKey(txHash: string, data: string): string {
+        return `${txHash.toLowerCase()}:${ethers.utils.keccak256(data)}`;
+    }
+
+    private async estimateGas(tx: ethers.providers.TransactionRequest): Promise<GasEstimate | undefined> {
+        try {
+            const [gasLimit, gasPrice] = await Promise.all([
+                this.provider.estimateGas(tx),
+                this.provider.getGasPrice()
+            ]);
+            return { gasLimit, gasPrice, cost: gasLimit.mul(gasPrice) };
+        } catch {
+            // Estimation reverts when the call would fail; the quote's limit fields explain why
+            return undefined;
+        }
+    }
+
+    private async getChainId(): Promise<number> {
+        const network = await this.provider.getNetwork();
+        return network.chainId;
+    }
+
+    private async ensureAllowance(
+        token: ethers.Contract,
+        owner: string,
+        amount: ethers.BigNumber,
+        spender: string = this.bridgeAddress
+    ): Promise<void> {
+        const balance: ethers.BigNumber = await token.balanceOf(owner);
+        if (balance.lt(amount)) {
+            throw new BridgeError({
+                type: BridgeErrorType.InsufficientBalance,
+                message: `Insufficient balance: ${balance.toString()} < ${amount.toString()}`,
+                details: { token: token.address, owner, balance: balance.toString(), amount: amount.toString() }
+            });
+        }
+
+        const allowance: ethers.BigNumber = await token.allowance(owner, spender);
+        if (allowance.lt(amount)) {
+            const tx = await token.approve(spender, amount);
+            await tx.wait();
+        }
+    }
+
+    private findLockEvent(receipt: ethers.ContractReceipt, eventName: string): ethers.Event & { args: ethers.utils.Result } {
+        const event = receipt.events?.find((e: ethers.Event) => e.event === eventName);
+        if (!event?.args) {
+            throw new BridgeError({
+                type: BridgeErrorType.ContractCallFailed,
+                message: `${eventName} event not found in lock receipt`,
+                txHash: receipt.transactionHash
+            });
+        }
+        return event as ethers.Event & { args: ethers.utils.Result };
+    }
+
+    private async ensureNFTApproval(
+        collection: ethers.Contract,
+        owner: string,
+        tokenId?: ethers.BigNumber
+    ): Promise<void> {
+        if (await collection.isApprovedForAll(owner, this.bridgeAddress)) return;
+
+        // ERC721 tokens can be approved individually; ERC1155 only supports operator approval
+        if (tokenId !== undefined) {
+            const approved: string = await collection.getApproved(tokenId);
+            if (approved.toLowerCase() === this.bridgeAddress.toLowerCase()) return;
+
+            const tx = await collection.approve(this.bridgeAddress, tokenId);
+            await tx.wait();
+            return;
+        }
+
+        const tx = await collection.setApprovalForAll(this.bridgeAddress, true);
+        await tx.wait();
+    }
+
+    private async ensureNFT1155Balance(
+        collection: ethers.Contract,
+        owner: string,
+        ids: ethers.BigNumber[],
+        amounts: ethers.BigNumber[]
+    ): Promise<void> {
+        const balances: ethers.BigNumber[] = await collection.balanceOfBatch(ids.map(() => owner), ids);
+        ids.forEach((id, i) => {
+            if (balances[i].lt(amounts[i])) {
+                throw new BridgeError({
+                    type: BridgeErrorType.InsufficientBalance,
+                    message: `Insufficient balance of token ${id.toString()}: ${balances[i].toString()} < ${amounts[i].toString()}`,
+                    details: { collection: collection.address, owner, tokenId: id.toString() }
+                });
+            }
+        });
+
+        await this.ensureNFTApproval(collection, owner);
+    }
+
+    private async ensureERC777Operator(
+        token: ethers.Contract,
+        holder: string,
+        amount: ethers.BigNumber,
+        operator?: string
+    ): Promise<void> {
+        const balance: ethers.BigNumber = await token.balanceOf(holder);
+        if (balance.lt(amount)) {
+            throw new BridgeError({
+                type: BridgeErrorType.InsufficientBalance,
+                message: `Insufficient balance: ${balance.toString()} < ${amount.toString()}`,
+                details: { token: token.address, owner: holder, balance: balance.toString(), amount: amount.toString() }
+            });
+        }
+
+        // The caller itself must be authorized before the bridge will accept an operator lock
+        if (operator && !(await token.isOperatorFor(operator, holder))) {
+            throw new BridgeError({
+                type: BridgeErrorType.Unauthorized,
+                message: `${operator} is not an authorized operator for ${holder}`,
+                details: { token: token.address, operator, holder }
+            });
+        }
+
+        if (!(await token.isOperatorFor(this.bridgeAddress, holder))) {
+            if (operator) {
+                throw new BridgeError({
+                    type: BridgeErrorType.Unauthorized,
+                    message: `Bridge is not an authorized operator for ${holder}`,
+                    details: { token: token.address, operator: this.bridgeAddress, holder }
+                });
+            }
+            const tx = await token.authorizeOperator(this.bridgeAddress);
+            await tx.wait();
+        }
+    }
+
+    private decodeProposal(
+        governanceInterface: ethers.utils.Interface,
+        data: string
+    ): ethers.utils.TransactionDescription | undefined {
+        try {
+            const call = governanceInterface.parseTransaction({ data });
+            return call.name === "proposeTransaction" ? call : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async loadPendingTransactions(
+        fromBlock: ethers.providers.BlockTag,
+        txHash?: string
+    ): Promise<PendingTransaction[]> {
+        const governance = new ethers.Contract(this.governanceAddress, GOVERNANCE_ABI, this.provider);
+
+        const [proposed, executed, cancelled] = await Promise.all([
+            governance.queryFilter(governance.filters.TransactionProposed(txHash), fromBlock),
+            governance.queryFilter(governance.filters.TransactionExecuted(txHash), fromBlock),
+            governance.queryFilter(governance.filters.TransactionCancelled(txHash), fromBlock)
+        ]);
+
+        const closed = new Set([...executed, ...cancelled].map(e => e.args!.txHash as string));
+
+        const open = proposed.filter(e => !closed.has(e.args!.txHash));
+        if (open.length === 0) return [];
+
+        const threshold: ethers.BigNumber = await governance.getThreshold();
+
+        return Promise.all(open.map(async (event): Promise<PendingTransaction> => {
+            const hash: string = event.args!.txHash;
+
+            // Target, value and calldata are only recoverable from the proposing transaction's input
+            const [proposal, block, signatureCount] = await Promise.all([
+                event.getTransaction(),
+                event.getBlock(),
+                governance.getSignatureCount(hash) as Promise<ethers.BigNumber>
+            ]);
+            // Proposals made through another contract (e.g. a Safe) carry its calldata and are returned raw
+            const call = this.decodeProposal(governance.interface, proposal.data);
+            const proposed = call
+                ? { target: call.args.target, value: call.args.value.toString(), data: call.args.data }
+                : { target: proposal.to ?? this.governanceAddress, value: proposal.value.toString(), data: proposal.data, undecoded: true };
+
+            return {
+                hash,
+                ...proposed,
+                proposer: event.args!.proposer,
+                signatureCount: signatureCount.toNumber(),
+                requiredSignatures: threshold.toNumber(),
+                proposedAt: block.timestamp,
+                // IBridgeGovernance emits no per-signer event, so only the count is known
+                signers: []
+            };
+        }));
+    }
+
+    private async trackERC777Transfer(
+        receipt: ethers.ContractReceipt,
+        holder: string,
+        amount: ethers.BigNumber,
+        targetChainId: number,
+        recipient: string,
+        userData: ethers.BytesLike,
+        operatorData: ethers.BytesLike
+    ): Promise<ERC777TransferResult> {
+        const event = this.findLockEvent(receipt, "TransferInitiated");
+        const result: ERC777TransferResult = {
+            lockId: event.args.lockId,
+            amount: ethers.BigNumber.from(event.args.amount ?? amount),
+            targetChainId: ethers.BigNumber.from(event.args.targetChainId ?? targetChainId).toNumber(),
+            recipient: event.args.recipient ?? recipient,
+            holder,
+            userData: ethers.utils.hexlify(userData),
+            operatorData: ethers.utils.hexlify(operatorData)
+        };
+
+        this.monitoringService.trackTransaction(result.lockId, await this.getChainId(), result.targetChainId);
+
+        return result;
+    }
+
+    private async trackNFTLock(
+        receipt: ethers.ContractReceipt,
+        eventName: string,
+        collection: string,
+        tokenIds: ethers.BigNumber[],
+        amounts: ethers.BigNumber[],
+        targetChainId: number,
+        recipient: string
+    ): Promise<NFTLockResult> {
+        const event = this.findLockEvent(receipt, eventName);
+        const result: NFTLockResult = {
+            lockId: event.args.lockId,
+            collection,
+            tokenIds,
+            amounts,
+            targetChainId: ethers.BigNumber.from(event.args.targetChainId ?? targetChainId).toNumber(),
+            recipient: event.args.recipient ?? recipient
+        };
+
+        this.monitoringService.trackTransaction(result.lockId, await this.getChainId(), result.targetChainId);
+
+        return result;
+    }
+
+    private async confirmUnlock(
+        lockId: string,
+        send: () => Promise<ethers.ContractTransaction>
+    ): Promise<UnlockResult> {
+        try {
+            const tx = await send();
+            this.monitoringService.recordSubmission(lockId, tx.hash);
+            // The receipt carries the hash that was mined, which differs from tx.hash after a fee replacement
+            const receipt = await tx.wait();
+            this.monitoringService.confirmTransaction(lockId, true);
+            return { lockId, txHash: receipt.transactionHash, alreadyProcessed: false };
+        } catch (error) {
+            const bridgeError = BridgeError.fromContractError(error, this.bridgeInterface);
+            if (bridgeError && ALREADY_PROCESSED_ERRORS.includes(bridgeError.type)) {
+                this.monitoringService.confirmTransaction(lockId, true);
+                return { lockId, alreadyProcessed: true };
+            }
+
+            this.monitoringService.confirmTransaction(lockId, false);
+            throw bridgeError ?? error;
+        }
     }
 
     async proposeTransaction(
@@ -36,7 +457,7 @@ export class BridgeService {
         targetChainId: number,
         data: string
     ): Promise<string> {
-        const bridge = new ethers.Contract(this.bridgeAddress, this.bridgeInterface, this.provider);
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "proposeTransaction");
         const tx = await bridge.proposeTransaction(targetAddress, targetChainId, data);
         const receipt = await tx.wait();
         
@@ -46,36 +467,115 @@ export class BridgeService {
 
         if (txHash) {
             // Start monitoring this transaction
-            this.monitoringService.trackTransaction(
-                txHash,
-                await this.provider.getNetwork().then((n: ethers.providers.Network) => n.chainId),
-                targetChainId
-            );
+            this.monitoringService.trackTransaction(txHash, await this.getChainId(), targetChainId);
         }
 
         return txHash;
     }
 
-    async signTransaction(txHash: string): Promise<void> {
+    async proposeAction(action: BridgeAction): Promise<string> {
+        const { target, value, data } = this.actionCodec.encode(action);
+        return this.submitProposal(target, value, data, "proposeAction");
+    }
+
+    private async submitProposal(
+        target: string,
+        value: ethers.BigNumberish,
+        data: string,
+        action: string
+    ): Promise<string> {
         const governance = new ethers.Contract(
             this.governanceAddress,
-            this.governanceInterface,
-            this.provider
+            GOVERNANCE_ABI,
+            this.getSigner(BridgeRole.OPERATOR, action)
         );
-        
+
+        const tx = await governance.proposeTransaction(target, value, data);
+        const receipt: ethers.ContractReceipt = await tx.wait();
+
+        const event = receipt.events?.find((e: ethers.Event) => e.event === "TransactionProposed");
+        if (!event?.args) {
+            throw new BridgeError({
+                type: BridgeErrorType.ContractCallFailed,
+                message: "TransactionProposed event not found in proposal receipt",
+                txHash: receipt.transactionHash
+            });
+        }
+        return event.args.txHash;
+    }
+
+    decodeAction(target: string, data: string, value?: ethers.BigNumberish): BridgeAction {
+        return this.actionCodec.decode({ target, data, value });
+    }
+
+    async reviewProposal(txHash: string, fromBlock: ethers.providers.BlockTag = 0): Promise<ProposalReview> {
+        const pending = await this.getPendingTransaction(txHash, fromBlock);
+        if (!pending) {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidData,
+                message: `No pending proposal found for ${txHash}`,
+                txHash
+            });
+        }
+        return this.proposalReviewer.review(pending);
+    }
+
+    acknowledgeReview(review: ProposalReview): void {
+        // Bind the acknowledgement to the exact calldata that was reviewed
+        this.acknowledgedReviews.add(this.reviewKey(review.txHash, review.data));
+    }
+
+    async signTransaction(txHash: string, requireReview: boolean = false): Promise<void> {
+        if (requireReview) {
+            const pending = await this.getPendingTransaction(txHash);
+            if (!pending || !this.acknowledgedReviews.has(this.reviewKey(txHash, pending.data))) {
+                throw new BridgeError({
+                    type: BridgeErrorType.Unauthorized,
+                    message: `Proposal ${txHash} must be reviewed and acknowledged before signing`,
+                    details: { action: "signTransaction", requiredRole: BridgeRole.ADMIN },
+                    txHash
+                });
+            }
+        }
+
+        const governance = this.getGovernance(BridgeRole.ADMIN, "signTransaction");
         const tx = await governance.signTransaction(txHash);
         await tx.wait();
     }
 
+    /**
+     * Proposes an off-chain approved proposal on-chain once enough current
+     * admins have signed it. IBridgeGovernance only counts signTransaction
+     * calls, so the collected signatures gate the proposal rather than replace
+     * those calls. Returns the governance transaction hash.
+     */
+    async proposeWithSignatures(
+        proposal: OffChainProposal,
+        collector: OffChainSignatureCollector
+    ): Promise<string> {
+        const governance = new ethers.Contract(this.governanceAddress, GOVERNANCE_ABI, this.provider);
+
+        // Only signatures from current admins count towards the threshold
+        const threshold: ethers.BigNumber = await governance.getThreshold();
+        const admins: string[] = [];
+        for (const { signer } of collector.getSignatures(proposal)) {
+            if (await governance.hasRole(signer, BridgeRole.ADMIN)) {
+                admins.push(signer);
+            }
+        }
+        collector.collect(proposal, threshold.toNumber(), admins);
+
+        const txHash = await this.submitProposal(proposal.target, proposal.value, proposal.data, "proposeWithSignatures");
+        collector.clear(proposal);
+        return txHash;
+    }
+
     async executeTransaction(txHash: string): Promise<void> {
-        const bridge = new ethers.Contract(
-            this.bridgeAddress,
-            this.bridgeInterface,
-            this.provider
-        );
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "executeTransaction");
 
         try {
             const tx = await bridge.executeTransaction(txHash);
+            this.monitoringService.recordSubmission(txHash, tx.hash);
             await tx.wait();
             this.monitoringService.confirmTransaction(txHash, true);
         } catch (error) {
@@ -84,14 +584,498 @@ export class BridgeService {
         }
     }
 
-    async toggleFeature(featureName: string, enabled: boolean): Promise<void> {
-        const governance = new ethers.Contract(
-            this.governanceAddress,
-            this.governanceInterface,
-            this.provider
-        );
+    // Delivers a message mirrored on another chain; returns the delivering transaction's hash
+    async mirrorTransaction(
+        sourceChainId: number,
+        sourceAddress: string,
+        transactionHash: string,
+        data: string,
+        trackedAs?: string
+    ): Promise<string> {
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "mirrorTransaction");
+
+        try {
+            const tx = await bridge.mirrorTransaction(sourceChainId, sourceAddress, transactionHash, data);
+            if (trackedAs) {
+                this.monitoringService.recordSubmission(trackedAs, tx.hash);
+            }
+            const receipt = await tx.wait();
+            return receipt.transactionHash;
+        } catch (error) {
+            throw BridgeError.fromContractError(error, this.bridgeInterface) ?? error;
+        }
+    }
+
+    /**
+     * Whether claimAsset has already consumed this proof hash. The contract
+     * keeps used hashes private, so this goes by its AssetClaimed events.
+     */
+    async isClaimProofUsed(
+        claim: Pick<ClaimProof, 'asset' | 'recipient' | 'proofHash'>,
+        fromBlock: ethers.providers.BlockTag = this.deploymentBlock
+    ): Promise<boolean> {
+        const bridge = new ethers.Contract(this.bridgeAddress, BRIDGE_MIRROR_ABI, this.provider);
+        const events = await bridge.queryFilter(bridge.filters.AssetClaimed(claim.asset, claim.recipient), fromBlock);
+        return events.some((event: ethers.Event) => event.args!.proofHash === claim.proofHash);
+    }
+
+    // Verifies the proof against its source-chain AssetBridged event before spending gas on it
+    async claimAsset(
+        proof: string,
+        sourceLog: ethers.providers.Log,
+        fromBlock: ethers.providers.BlockTag = this.deploymentBlock
+    ): Promise<string> {
+        const payload = verifyClaimProof(proof, sourceLog);
+        const proofHash = getProofHash(proof);
+
+        if (await this.isClaimProofUsed({ ...payload, proofHash }, fromBlock)) {
+            throw new BridgeError({
+                type: BridgeErrorType.ProofAlreadyUsed,
+                message: `Proof already used: ${proofHash}`,
+                details: { proofHash, asset: payload.asset, recipient: payload.recipient }
+            });
+        }
+
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "claimAsset");
+        try {
+            const tx = await bridge.claimAsset(proof);
+            const receipt = await tx.wait();
+            return receipt.transactionHash;
+        } catch (error) {
+            throw BridgeError.fromContractError(error, this.bridgeInterface) ?? error;
+        }
+    }
 
+    async toggleFeature(featureName: string, enabled: boolean): Promise<void> {
+        const governance = this.getGovernance(BridgeRole.ADMIN, "toggleFeature");
         const tx = await governance.toggleFeature(featureName, enabled);
         await tx.wait();
     }
+
+    async getPendingTransactions(fromBlock: ethers.providers.BlockTag = 0): Promise<PendingTransaction[]> {
+        const pending = await this.loadPendingTransactions(fromBlock);
+        return pending.sort((a, b) => a.proposedAt - b.proposedAt);
+    }
+
+    async getPendingTransaction(
+        txHash: string,
+        fromBlock: ethers.providers.BlockTag = 0
+    ): Promise<PendingTransaction | undefined> {
+        const [pending] = await this.loadPendingTransactions(fromBlock, txHash);
+        return pending;
+    }
+
+    async registerToken(token: string): Promise<void> {
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "registerToken");
+        const tx = await bridge.registerToken(token);
+        await tx.wait();
+    }
+
+    async lockTokens(
+        token: string,
+        amount: ethers.BigNumberish,
+        targetChainId: number,
+        recipient: string
+    ): Promise<LockResult> {
+        const signer = this.getSigner(BridgeRole.OPERATOR, "lockTokens");
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "lockTokens");
+        const value = ethers.BigNumber.from(amount);
+
+        const erc20 = new ethers.Contract(token, ERC20_ABI, signer);
+        await this.ensureAllowance(erc20, await signer.getAddress(), value);
+
+        const tx = await bridge.lockTokens(token, value, targetChainId, recipient);
+        const receipt = await tx.wait();
+
+        const event = this.findLockEvent(receipt, "TokensLocked");
+        const result: LockResult = {
+            lockId: event.args.lockId,
+            amount: ethers.BigNumber.from(event.args.amount ?? value),
+            targetChainId: ethers.BigNumber.from(event.args.targetChainId ?? targetChainId).toNumber(),
+            recipient: event.args.recipient ?? recipient
+        };
+
+        this.monitoringService.trackTransaction(result.lockId, await this.getChainId(), result.targetChainId);
+
+        return result;
+    }
+
+    async unlockTokens(
+        token: string,
+        amount: ethers.BigNumberish,
+        recipient: string,
+        lockId: string
+    ): Promise<UnlockResult> {
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "unlockTokens");
+        return this.confirmUnlock(lockId, () => bridge.unlockTokens(token, amount, recipient, lockId));
+    }
+
+    async isLockProcessed(lockId: string): Promise<boolean> {
+        const bridge = new ethers.Contract(this.bridgeAddress, this.bridgeInterface, this.provider);
+        return bridge.isLockProcessed(lockId);
+    }
+
+    async getLockedAmount(token: string): Promise<ethers.BigNumber> {
+        const bridge = new ethers.Contract(this.bridgeAddress, this.bridgeInterface, this.provider);
+        return bridge.getLockedAmount(token);
+    }
+
+    async registerNFTCollection(collection: string): Promise<void> {
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "registerNFTCollection");
+        const tx = await bridge.registerNFTCollection(collection);
+        await tx.wait();
+    }
+
+    async lockNFT(
+        collection: string,
+        tokenId: ethers.BigNumberish,
+        targetChainId: number,
+        recipient: string
+    ): Promise<NFTLockResult> {
+        const signer = this.getSigner(BridgeRole.OPERATOR, "lockNFT");
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "lockNFT");
+        const owner = await signer.getAddress();
+        const id = ethers.BigNumber.from(tokenId);
+
+        const erc721 = new ethers.Contract(collection, ERC721_ABI, signer);
+        const currentOwner: string = await erc721.ownerOf(id);
+        if (currentOwner.toLowerCase() !== owner.toLowerCase()) {
+            throw new BridgeError({
+                type: BridgeErrorType.InsufficientBalance,
+                message: `Token ${id.toString()} is owned by ${currentOwner}, not ${owner}`,
+                details: { collection, tokenId: id.toString(), owner: currentOwner }
+            });
+        }
+        await this.ensureNFTApproval(erc721, owner, id);
+
+        const tx = await bridge.lockNFT(collection, id, targetChainId, recipient);
+        const receipt = await tx.wait();
+
+        return this.trackNFTLock(receipt, "NFTLocked", collection, [id], [ethers.BigNumber.from(1)], targetChainId, recipient);
+    }
+
+    async lockNFT1155(
+        collection: string,
+        tokenId: ethers.BigNumberish,
+        amount: ethers.BigNumberish,
+        targetChainId: number,
+        recipient: string
+    ): Promise<NFTLockResult> {
+        const signer = this.getSigner(BridgeRole.OPERATOR, "lockNFT1155");
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "lockNFT1155");
+        const id = ethers.BigNumber.from(tokenId);
+        const value = ethers.BigNumber.from(amount);
+
+        const erc1155 = new ethers.Contract(collection, ERC1155_ABI, signer);
+        await this.ensureNFT1155Balance(erc1155, await signer.getAddress(), [id], [value]);
+
+        const tx = await bridge.lockNFT1155(collection, id, value, targetChainId, recipient);
+        const receipt = await tx.wait();
+
+        return this.trackNFTLock(receipt, "NFT1155Locked", collection, [id], [value], targetChainId, recipient);
+    }
+
+    async lockNFT1155Batch(
+        collection: string,
+        tokenIds: ethers.BigNumberish[],
+        amounts: ethers.BigNumberish[],
+        targetChainId: number,
+        recipient: string
+    ): Promise<NFTLockResult> {
+        if (tokenIds.length === 0 || tokenIds.length !== amounts.length) {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidArrayLength,
+                message: `Token ID and amount arrays must be non-empty and equal in length (${tokenIds.length}/${amounts.length})`
+            });
+        }
+
+        const signer = this.getSigner(BridgeRole.OPERATOR, "lockNFT1155Batch");
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "lockNFT1155Batch");
+        const ids = tokenIds.map(id => ethers.BigNumber.from(id));
+        const values = amounts.map(amount => ethers.BigNumber.from(amount));
+
+        const erc1155 = new ethers.Contract(collection, ERC1155_ABI, signer);
+        await this.ensureNFT1155Balance(erc1155, await signer.getAddress(), ids, values);
+
+        const tx = await bridge.lockNFT1155Batch(collection, ids, values, targetChainId, recipient);
+        const receipt = await tx.wait();
+
+        return this.trackNFTLock(receipt, "NFT1155BatchLocked", collection, ids, values, targetChainId, recipient);
+    }
+
+    async unlockNFT(
+        collection: string,
+        tokenId: ethers.BigNumberish,
+        recipient: string,
+        lockId: string
+    ): Promise<UnlockResult> {
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "unlockNFT");
+        return this.confirmUnlock(lockId, () => bridge.unlockNFT(collection, tokenId, recipient, lockId));
+    }
+
+    async unlockNFT1155(
+        collection: string,
+        tokenId: ethers.BigNumberish,
+        amount: ethers.BigNumberish,
+        recipient: string,
+        lockId: string
+    ): Promise<UnlockResult> {
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "unlockNFT1155");
+        return this.confirmUnlock(lockId, () => bridge.unlockNFT1155(collection, tokenId, amount, recipient, lockId));
+    }
+
+    async unlockNFT1155Batch(
+        collection: string,
+        tokenIds: ethers.BigNumberish[],
+        amounts: ethers.BigNumberish[],
+        recipient: string,
+        lockId: string
+    ): Promise<UnlockResult> {
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "unlockNFT1155Batch");
+        return this.confirmUnlock(
+            lockId,
+            () => bridge.unlockNFT1155Batch(collection, tokenIds, amounts, recipient, lockId)
+        );
+    }
+
+    async quoteVaultDeposit(vault: string, assets: ethers.BigNumberish): Promise<VaultQuote> {
+        const erc4626 = new ethers.Contract(vault, ERC4626_ABI, this.provider);
+        const value = ethers.BigNumber.from(assets);
+
+        let asset: string;
+        try {
+            asset = await erc4626.asset();
+        } catch (error) {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidVaultAddress,
+                message: `Address ${vault} is not an ERC4626 vault`,
+                details: { vault }
+            });
+        }
+
+        const shares: ethers.BigNumber = await erc4626.previewDeposit(value);
+        if (shares.isZero()) {
+            throw new BridgeError({
+                type: BridgeErrorType.ShareCalculationFailed,
+                message: `Vault ${vault} quotes zero shares for ${value.toString()} assets`,
+                details: { vault, assets: value.toString() }
+            });
+        }
+
+        return {
+            vault,
+            asset,
+            assets: value,
+            shares,
+            redeemableAssets: await erc4626.convertToAssets(shares)
+        };
+    }
+
+    async bridgeVaultShares(
+        vault: string,
+        assets: ethers.BigNumberish,
+        targetChainId: number,
+        recipient: string,
+        minShares?: ethers.BigNumberish
+    ): Promise<VaultBridgeResult> {
+        const signer = this.getSigner(BridgeRole.OPERATOR, "bridgeVaultShares");
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "bridgeVaultShares");
+        const owner = await signer.getAddress();
+
+        // Quote first so callers can show (and bound) the share amount before anything is sent
+        const quote = await this.quoteVaultDeposit(vault, assets);
+        if (minShares !== undefined && quote.shares.lt(minShares)) {
+            throw new BridgeError({
+                type: BridgeErrorType.ShareCalculationFailed,
+                message: `Quoted ${quote.shares.toString()} shares, below minimum ${ethers.BigNumber.from(minShares).toString()}`,
+                details: { vault, shares: quote.shares.toString(), minShares: minShares.toString() }
+            });
+        }
+
+        const erc4626 = new ethers.Contract(vault, ERC4626_ABI, signer);
+        const underlying = new ethers.Contract(quote.asset, ERC20_ABI, signer);
+
+        try {
+            await this.ensureAllowance(underlying, owner, quote.assets, vault);
+            const depositTx = await erc4626.deposit(quote.assets, owner);
+            const depositReceipt: ethers.ContractReceipt = await depositTx.wait();
+
+            const depositEvent = depositReceipt.events?.find((e: ethers.Event) => e.event === "Deposit");
+            const shares: ethers.BigNumber = depositEvent?.args?.shares ?? quote.shares;
+
+            const balance: ethers.BigNumber = await erc4626.balanceOf(owner);
+            if (balance.lt(shares)) {
+                throw new BridgeError({
+                    type: BridgeErrorType.InsufficientShares,
+                    message: `Insufficient shares: ${balance.toString()}/${shares.toString()}`,
+                    details: { vault, available: balance.toString(), required: shares.toString() }
+                });
+            }
+            await this.ensureAllowance(erc4626, owner, shares);
+
+            const tx = await bridge.lockVaultShares(vault, shares, targetChainId, recipient);
+            const receipt = await tx.wait();
+            const event = this.findLockEvent(receipt, "VaultSharesLocked");
+
+            const lock: LockResult = {
+                lockId: event.args.lockId,
+                amount: ethers.BigNumber.from(event.args.shares ?? shares),
+                targetChainId: ethers.BigNumber.from(event.args.targetChainId ?? targetChainId).toNumber(),
+                recipient: event.args.recipient ?? recipient
+            };
+
+            this.monitoringService.trackTransaction(lock.lockId, await this.getChainId(), lock.targetChainId);
+
+            return { quote, lock };
+        } catch (error) {
+            throw BridgeError.fromContractError(error, this.bridgeInterface)
+                ?? BridgeError.fromContractError(error, erc4626.interface)
+                ?? error;
+        }
+    }
+
+    async unlockVaultShares(
+        vault: string,
+        shares: ethers.BigNumberish,
+        recipient: string,
+        lockId: string
+    ): Promise<UnlockResult> {
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "unlockVaultShares");
+        return this.confirmUnlock(lockId, () => bridge.unlockVaultShares(vault, shares, recipient, lockId));
+    }
+
+    async transferERC777WithData(
+        token: string,
+        amount: ethers.BigNumberish,
+        targetChainId: number,
+        recipient: string,
+        userData: ethers.BytesLike = "0x",
+        operatorData: ethers.BytesLike = "0x"
+    ): Promise<ERC777TransferResult> {
+        const signer = this.getSigner(BridgeRole.OPERATOR, "transferERC777WithData");
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "transferERC777WithData");
+        const holder = await signer.getAddress();
+        const value = ethers.BigNumber.from(amount);
+
+        const erc777 = new ethers.Contract(token, ERC777_ABI, signer);
+        await this.ensureERC777Operator(erc777, holder, value);
+
+        const tx = await bridge.initiateTransfer(token, value, targetChainId, recipient, userData, operatorData);
+        const receipt = await tx.wait();
+
+        return this.trackERC777Transfer(receipt, holder, value, targetChainId, recipient, userData, operatorData);
+    }
+
+    async operatorTransferERC777(
+        token: string,
+        holder: string,
+        amount: ethers.BigNumberish,
+        targetChainId: number,
+        recipient: string,
+        userData: ethers.BytesLike = "0x",
+        operatorData: ethers.BytesLike = "0x"
+    ): Promise<ERC777TransferResult> {
+        const signer = this.getSigner(BridgeRole.OPERATOR, "operatorTransferERC777");
+        const bridge = this.getBridge(BridgeRole.OPERATOR, "operatorTransferERC777");
+        const value = ethers.BigNumber.from(amount);
+
+        const erc777 = new ethers.Contract(token, ERC777_ABI, signer);
+        await this.ensureERC777Operator(erc777, holder, value, await signer.getAddress());
+
+        const tx = await bridge.operatorInitiateTransfer(
+            token,
+            holder,
+            value,
+            targetChainId,
+            recipient,
+            userData,
+            operatorData
+        );
+        const receipt = await tx.wait();
+
+        return this.trackERC777Transfer(receipt, holder, value, targetChainId, recipient, userData, operatorData);
+    }
+
+    async quote(
+        asset: string,
+        amount: ethers.BigNumberish,
+        targetChainId: number,
+        targetService?: BridgeService
+    ): Promise<BridgeQuote> {
+        const value = ethers.BigNumber.from(amount);
+        if (value.lte(0)) {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidAmount,
+                message: `Invalid amount: ${value.toString()}`,
+                details: { amount: value.toString() }
+            });
+        }
+
+        const bridge = new ethers.Contract(this.bridgeAddress, BRIDGE_MIRROR_ABI, this.provider);
+        let dailyLimit: ethers.BigNumber | undefined;
+        try {
+            const info = await bridge.getAssetInfo(asset);
+            if (info.status !== 1) {
+                throw new BridgeError({
+                    type: BridgeErrorType.TokenNotRegistered,
+                    message: `Token not registered: ${asset}`,
+                    details: { token: asset }
+                });
+            }
+            dailyLimit = ethers.BigNumber.from(info.dailyLimit);
+        } catch (error) {
+            // Older deployments have no getAssetInfo; the simulated bridgeAsset below stands in for it
+            if ((error as { code?: string }).code !== ethers.utils.Logger.errors.CALL_EXCEPTION) {
+                throw error;
+            }
+        }
+        const netAmount = value;
+
+        const operator = this.signers.get(BridgeRole.OPERATOR);
+        const from = operator ? await operator.getAddress() : undefined;
+        const recipient = from ?? ethers.constants.AddressZero;
+
+        const [sourceGas, targetGas] = await Promise.all([
+            this.estimateGas({
+                from,
+                to: this.bridgeAddress,
+                data: bridge.interface.encodeFunctionData("bridgeAsset", [asset, value, recipient])
+            }),
+            targetService?.estimateClaimGas(asset, recipient, netAmount)
+        ]);
+
+        return {
+            asset,
+            amount: value,
+            targetChainId,
+            netAmount,
+            dailyLimit,
+            withinLimits: dailyLimit ? value.lte(dailyLimit) : sourceGas !== undefined,
+            sourceGas,
+            targetGas
+        };
+    }
+
+    async estimateClaimGas(
+        asset: string,
+        recipient: string,
+        amount: ethers.BigNumberish
+    ): Promise<GasEstimate | undefined> {
+        const bridge = new ethers.utils.Interface(BRIDGE_MIRROR_ABI);
+        // The source event only changes the proof hash, not what claimAsset does with it
+        const proof = encodeClaimProof({
+            asset,
+            recipient,
+            amount: ethers.BigNumber.from(amount).toString(),
+            sourceTransactionHash: ethers.constants.HashZero,
+            sourceLogIndex: 0
+        });
+        const operator = this.signers.get(BridgeRole.OPERATOR);
+
+        return this.estimateGas({
+            from: operator ? await operator.getAddress() : undefined,
+            to: this.bridgeAddress,
+            data: bridge.encodeFunctionData("claimAsset", [proof])
+        });
+    }
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { ethers } from "ethers";
+import { BRIDGE_MIRROR_ABI } from "./abis";
+import { BridgeError, BridgeErrorType } from "../utils/BridgeErrors";
+
+// The proof's fields in calldata order. BridgeMirror._processProof reads the
+// first three; the source event only makes the proof hash unique, so two
+// identical transfers can both be claimed.
+export interface ClaimPayload {
+    asset: string;
+    recipient: string;
+    amount: string;
+    // The source-chain AssetBridged event the claim was built from
+    sourceTransactionHash: string;
+    sourceLogIndex: number;
+}
+
+export interface ClaimProof extends ClaimPayload {
+    proof: string;
+    // keccak256(proof): the key claimAsset marks as used
+    proofHash: string;
+}
+
+const PROOF_TYPES = ["address", "address", "uint256", "bytes32", "uint256"];
+// Five 32-byte words; anything longer still decodes on-chain but hashes differently
+const PROOF_LENGTH = 160;
+
+const mirrorInterface = new ethers.utils.Interface(BRIDGE_MIRROR_ABI);
+
+export const ASSET_BRIDGED_TOPIC = mirrorInterface.getEventTopic("AssetBridged");
+
+/**
+ * Claim proofs are the one cross-chain message that is not a MessageEnvelope:
+ * claimAsset reads raw words at fixed calldata offsets, where an encoded
+ * envelope starts with its tuple offset, and keys used proofs by
+ * keccak256(proof) rather than an envelope hash.
+ */
+export function encodeClaimProof({ asset, recipient, amount, sourceTransactionHash, sourceLogIndex }: ClaimPayload): string {
+    return ethers.utils.defaultAbiCoder.encode(PROOF_TYPES, [asset, recipient, amount, sourceTransactionHash, sourceLogIndex]);
+}
+
+/**
+ * Reads a proof the way claimAsset does. Only the canonical encoding is
+ * accepted: trailing bytes or dirty address padding would give the same claim
+ * a second proof hash, and with it a second use.
+ */
+export function decodeClaimProof(proof: string): ClaimPayload {
+    const invalid = (reason: string) => new BridgeError({
+        type: BridgeErrorType.InvalidData,
+        message: `Invalid claim proof: ${reason}`,
+        details: { proof }
+    });
+
+    if (!ethers.utils.isHexString(proof) || ethers.utils.hexDataLength(proof) !== PROOF_LENGTH) {
+        throw invalid(`expected ${PROOF_LENGTH} bytes`);
+    }
+
+    let payload: ClaimPayload;
+    try {
+        const [asset, recipient, amount, sourceTransactionHash, sourceLogIndex] = ethers.utils.defaultAbiCoder.decode(PROOF_TYPES, proof);
+        payload = { asset, recipient, amount: amount.toString(), sourceTransactionHash, sourceLogIndex: sourceLogIndex.toNumber() };
+    } catch {
+        throw invalid("non-canonical encoding");
+    }
+
+    if (encodeClaimProof(payload) !== proof.toLowerCase()) {
+        throw invalid("non-canonical encoding");
+    }
+    return payload;
+}
+
+export function getProofHash(proof: string): string {
+    return ethers.utils.keccak256(proof);
+}
+
+function parseAssetBridged(log: ethers.providers.Log): ethers.utils.LogDescription {
+    if (log.topics[0] !== ASSET_BRIDGED_TOPIC) {
+        throw new BridgeError({
+            type: BridgeErrorType.InvalidData,
+            message: `Not an AssetBridged event: ${log.transactionHash}:${log.logIndex}`,
+            details: { transactionHash: log.transactionHash, logIndex: log.logIndex }
+        });
+    }
+    return mirrorInterface.parseLog(log);
+}
+
+// The claim an AssetBridged event entitles its recipient to on the target chain
+export function buildClaimProof(log: ethers.providers.Log): ClaimProof {
+    const { args } = parseAssetBridged(log);
+    const payload: ClaimPayload = {
+        asset: args.asset,
+        recipient: args.recipient,
+        amount: args.amount.toString(),
+        sourceTransactionHash: log.transactionHash,
+        sourceLogIndex: log.logIndex
+    };
+    const proof = encodeClaimProof(payload);
+
+    return { ...payload, proof, proofHash: getProofHash(proof) };
+}
+
+/**
+ * Checks a proof against the event it claims to come from before it is
+ * submitted. Throws InvalidData naming every field that differs.
+ */
+export function verifyClaimProof(proof: string, log: ethers.providers.Log): ClaimPayload {
+    const payload = decodeClaimProof(proof);
+    const { args } = parseAssetBridged(log);
+
+    const mismatches: string[] = [];
+    if (payload.asset !== args.asset) mismatches.push("asset");
+    if (payload.recipient !== args.recipient) mismatches.push("recipient");
+    if (!args.amount.eq(payload.amount)) mismatches.push("amount");
+    if (payload.sourceTransactionHash !== log.transactionHash.toLowerCase()) mismatches.push("sourceTransactionHash");
+    if (payload.sourceLogIndex !== log.logIndex) mismatches.push("sourceLogIndex");
+
+    if (mismatches.length > 0) {
+        throw new BridgeError({
+            type: BridgeErrorType.InvalidData,
+            message: `Claim proof does not match AssetBridged event: ${mismatches.join(", ")}`,
+            details: { mismatches, transactionHash: log.transactionHash, logIndex: log.logIndex }
+        });
+    }
+    return payload;
+}
@@ -0,0 +1,253 @@
+import { ethers } from "ethers";
+import { EventEmitter } from "events";
+import { ChainConfig } from "../admin-panel/types/config";
+import { BlockCursor, CursorStore, RecordedBlock, RecordedLog } from "../utils/CursorStore";
+import { RetryPolicy } from "../utils/RetryPolicy";
+
+export type LogHandler = (log: ethers.providers.Log) => Promise<void>;
+
+export interface ReorgNotice {
+    chainId: number;
+    blockNumber: number;
+    // Logs that were handled (or about to be) from blocks no longer on the canonical chain
+    logs: RecordedLog[];
+}
+
+// Blocks deeper than this are treated as final when walking back after a reorg
+const RECENT_BLOCK_HISTORY = 64;
+
+// Confirmations waited for on a chain whose network config sets none
+export const DEFAULT_REQUIRED_CONFIRMATIONS = 12;
+
+/**
+ * Pulls logs for one chain in bounded block windows and checkpoints after
+ * every handled log, so restarts neither skip nor repeat events. Logs are only
+ * handled once their block has requiredConfirmations and is still canonical.
+ */
+export class EventIngester extends EventEmitter {
+    private readonly chainId: number;
+    private readonly provider: ethers.providers.Provider;
+    private readonly config: ChainConfig;
+    private readonly cursorStore: CursorStore;
+    private readonly topics: Array<string | string[]>;
+    private readonly handler: LogHandler;
+    private readonly requiredConfirmations: number;
+    private readonly retryPolicy?: RetryPolicy;
+    private timer?: NodeJS.Timeout;
+    private polling = false;
+
+    constructor(
+        chainId: number,
+        provider: ethers.providers.Provider,
+        config: ChainConfig,
+        cursorStore: CursorStore,
+        topics: Array<string | string[]>,
+        handler: LogHandler,
+        requiredConfirmations: number = 0,
+        retryPolicy?: RetryPolicy
+    ) {
+        super();
+        this.chainId = chainId;
+        this.provider = provider;
+        this.config = config;
+        this.cursorStore = cursorStore;
+        this.topics = topics;
+        this.handler = handler;
+        this.requiredConfirmations = requiredConfirmations;
+        this.retryPolicy = retryPolicy;
+    }
+
+    public start(pollInterval: number): void {
+        if (this.timer) return;
+
+        const loop = async () => {
+            try {
+                await this.poll();
+            } catch (error) {
+                this.emit('error', error);
+            }
+            if (this.timer) {
+                this.timer = setTimeout(loop, pollInterval);
+            }
+        };
+        this.timer = setTimeout(loop, 0);
+    }
+
+    public stop(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+
+    /**
+     * Processes everything between the stored cursor and the chain head.
+     * Returns the number of logs handed to the handler.
+     */
+    public async poll(toBlock?: number): Promise<number> {
+        if (this.polling) return 0;
+        this.polling = true;
+
+        try {
+            const head = toBlock ?? await this.read("getBlockNumber", () => this.provider.getBlockNumber());
+            // The head block has one confirmation
+            const safeHead = head - Math.max(this.requiredConfirmations - 1, 0);
+            let handled = 0;
+
+            await this.checkForReorg();
+
+            while (true) {
+                const cursor = this.cursorStore.get(this.chainId);
+                const fromBlock = cursor
+                    ? (cursor.logIndex === null ? cursor.blockNumber + 1 : cursor.blockNumber)
+                    : this.config.startBlock ?? this.config.deploymentBlock;
+                if (fromBlock > safeHead) break;
+
+                const endBlock = Math.min(fromBlock + this.getWindowSize() - 1, safeHead);
+                const result = await this.ingestRange(fromBlock, endBlock, cursor);
+                handled += result.handled;
+
+                // Retry the window on the next poll once the node has settled on a chain
+                if (result.reorged) break;
+            }
+
+            return handled;
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private read<T>(method: string, call: () => Promise<T>): Promise<T> {
+        return this.retryPolicy ? this.retryPolicy.execute(call, `${method} on chain ${this.chainId}`) : call();
+    }
+
+    private getWindowSize(): number {
+        return Math.max(1, Math.min(this.config.syncBatchSize, this.config.maxBlockRange));
+    }
+
+    private async getCanonicalHash(blockNumber: number): Promise<string | undefined> {
+        const block = await this.read("getBlock", () => this.provider.getBlock(blockNumber));
+        return block?.hash;
+    }
+
+    /**
+     * Compares the last checkpointed block hash with the canonical chain and,
+     * if it was replaced, rewinds the cursor to the newest surviving block.
+     */
+    private async checkForReorg(): Promise<void> {
+        const cursor = this.cursorStore.get(this.chainId);
+        if (!cursor?.blockHash) return;
+        if (await this.getCanonicalHash(cursor.blockNumber) === cursor.blockHash) return;
+
+        // Any surviving block implies all of its ancestors survived too
+        const recentBlocks = [...(cursor.recentBlocks || [])].sort((a, b) => b.blockNumber - a.blockNumber);
+        const orphaned: RecordedBlock[] = [];
+        let ancestor: RecordedBlock | undefined;
+        for (const block of recentBlocks) {
+            if (block.blockNumber <= cursor.blockNumber &&
+                await this.getCanonicalHash(block.blockNumber) === block.blockHash) {
+                ancestor = block;
+                break;
+            }
+            orphaned.push(block);
+        }
+
+        const reorgBlock = orphaned.length > 0
+            ? Math.min(...orphaned.map(b => b.blockNumber))
+            : cursor.blockNumber;
+        const rewindTo = ancestor?.blockNumber ?? reorgBlock - 1;
+
+        this.cursorStore.set(this.chainId, {
+            blockNumber: rewindTo,
+            logIndex: null,
+            blockHash: ancestor?.blockHash,
+            recentBlocks: recentBlocks.filter(b => b.blockNumber <= rewindTo).reverse()
+        });
+
+        const notice: ReorgNotice = {
+            chainId: this.chainId,
+            blockNumber: reorgBlock,
+            logs: orphaned.flatMap(b => b.logs)
+        };
+        this.emit('reorg', notice);
+    }
+
+    private async ingestRange(
+        fromBlock: number,
+        toBlock: number,
+        cursor: BlockCursor | undefined
+    ): Promise<{ handled: number; reorged: boolean }> {
+        const logs = await this.read("getLogs", () => this.provider.getLogs({
+            address: this.config.bridgeAddress,
+            topics: this.topics,
+            fromBlock,
+            toBlock
+        }));
+        logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+        const resumeAfterLogIndex = cursor?.logIndex ?? null;
+        let recentBlocks = cursor?.recentBlocks || [];
+        const canonicalHashes = new Map<number, string | undefined>();
+        let handled = 0;
+
+        for (let i = 0; i < logs.length; i++) {
+            const log = logs[i];
+
+            // The first block may have been partially processed before a restart
+            if (resumeAfterLogIndex !== null && log.blockNumber === fromBlock && log.logIndex <= resumeAfterLogIndex) {
+                continue;
+            }
+
+            if (!canonicalHashes.has(log.blockNumber)) {
+                canonicalHashes.set(log.blockNumber, await this.getCanonicalHash(log.blockNumber));
+            }
+            if (canonicalHashes.get(log.blockNumber) !== log.blockHash) {
+                // The node returned logs from a block that has since been orphaned
+                const notice: ReorgNotice = {
+                    chainId: this.chainId,
+                    blockNumber: log.blockNumber,
+                    logs: logs.slice(i).filter(l => l.blockHash === log.blockHash).map(l => this.record(l))
+                };
+                this.emit('reorg', notice);
+                return { handled, reorged: true };
+            }
+
+            await this.handler(log);
+            recentBlocks = this.remember(recentBlocks, log);
+            this.cursorStore.set(this.chainId, {
+                blockNumber: log.blockNumber,
+                logIndex: log.logIndex,
+                blockHash: log.blockHash,
+                recentBlocks
+            });
+            handled++;
+        }
+
+        const endHash = canonicalHashes.has(toBlock) ? canonicalHashes.get(toBlock) : await this.getCanonicalHash(toBlock);
+        this.cursorStore.set(this.chainId, {
+            blockNumber: toBlock,
+            logIndex: null,
+            blockHash: endHash,
+            recentBlocks: endHash ? this.remember(recentBlocks, { blockNumber: toBlock, blockHash: endHash }) : recentBlocks
+        });
+        this.emit('synced', { chainId: this.chainId, fromBlock, toBlock, logs: handled });
+        return { handled, reorged: false };
+    }
+
+    private record(log: ethers.providers.Log): RecordedLog {
+        return { transactionHash: log.transactionHash, logIndex: log.logIndex, topics: log.topics };
+    }
+
+    private remember(
+        recentBlocks: RecordedBlock[],
+        entry: { blockNumber: number; blockHash: string } | ethers.providers.Log
+    ): RecordedBlock[] {
+        const blocks = recentBlocks.filter(b => b.blockNumber !== entry.blockNumber);
+        const existing = recentBlocks.find(b => b.blockNumber === entry.blockNumber && b.blockHash === entry.blockHash);
+        const logs = existing ? [...existing.logs] : [];
+        if ('logIndex' in entry) {
+            logs.push(this.record(entry));
+        }
+
+        blocks.push({ blockNumber: entry.blockNumber, blockHash: entry.blockHash, logs });
+        return blocks.sort((a, b) => a.blockNumber - b.blockNumber).slice(-RECENT_BLOCK_HISTORY);
+    }
+}
@@ -0,0 +1,209 @@
+import { ethers } from "ethers";
+import { EventEmitter } from "events";
+import { EpochStore, LockEpoch } from "../utils/EpochStore";
+import { MerkleTree } from "../utils/MerkleTree";
+import { LockEvent } from "./LockEvents";
+import { ENVELOPE_VERSION, getEnvelopeHash, lockEnvelope, MessageEnvelope, PayloadType } from "./MessageEnvelope";
+
+export interface BatchingConfig {
+    // An epoch is sealed as soon as it holds this many locks...
+    maxBatchSize: number;
+    // ...or once it has been open this long (ms), whichever comes first
+    epochDuration: number;
+    // How long committed epochs stay in the store to serve inclusion proofs (ms)
+    retainCommitted: number;
+}
+
+export interface InclusionProof {
+    epochId: string;
+    root: string;
+    leaf: string;
+    proof: string[];
+    lock: LockEvent;
+}
+
+export const DEFAULT_BATCHING_CONFIG: BatchingConfig = {
+    maxBatchSize: 256,
+    epochDuration: 60_000,
+    retainCommitted: 7 * 24 * 60 * 60_000
+};
+
+/**
+ * Canonical leaf for a lock: the hash of its message envelope. Being an EIP-712
+ * hash over 66 bytes, a leaf can never be mistaken for an inner node.
+ */
+export function getLockLeaf(lock: LockEvent): string {
+    return getEnvelopeHash(lockEnvelope(lock));
+}
+
+/**
+ * The message that carries a sealed epoch's root from bridge to bridge. Its
+ * hash goes in mirrorTransaction's transactionHash slot, its encoding in data.
+ */
+export function getEpochEnvelope(epoch: LockEpoch, sourceBridge: string, targetBridge: string): MessageEnvelope {
+    if (!epoch.root) {
+        throw new Error(`Epoch ${epoch.id} has not been sealed`);
+    }
+    return {
+        version: ENVELOPE_VERSION,
+        sourceChainId: epoch.sourceChainId,
+        destinationChainId: epoch.targetChainId,
+        nonce: String(epoch.number),
+        sender: sourceBridge,
+        recipient: targetBridge,
+        payloadType: PayloadType.EpochCommitment,
+        payload: ethers.utils.defaultAbiCoder.encode(["bytes32", "uint256"], [epoch.root, epoch.locks.length])
+    };
+}
+
+// Recomputes the leaf from the lock itself, so a proof cannot vouch for a different transfer
+export function verifyInclusionProof({ root, leaf, proof, lock }: InclusionProof): boolean {
+    return getLockLeaf(lock) === leaf && MerkleTree.verify(root, leaf, proof);
+}
+
+/**
+ * Groups locks into epochs per (source, target) route and seals each epoch
+ * into a Merkle root. Only the root needs relaying; every transfer in the
+ * epoch is then claimed with its inclusion proof.
+ */
+export class LockBatcher extends EventEmitter {
+    private readonly store: EpochStore;
+    private readonly config: BatchingConfig;
+    private readonly now: () => number;
+    private timer?: NodeJS.Timeout;
+
+    constructor(
+        store: EpochStore = new EpochStore(),
+        config: BatchingConfig = DEFAULT_BATCHING_CONFIG,
+        now: () => number = Date.now
+    ) {
+        super();
+        if (config.maxBatchSize < 1) throw new Error("maxBatchSize must be at least 1");
+        this.store = store;
+        this.config = config;
+        this.now = now;
+    }
+
+    public start(interval: number): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => {
+            try {
+                this.sealDue();
+                this.prune();
+            } catch (error) {
+                this.emit('error', error);
+            }
+        }, interval);
+    }
+
+    public stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    // Adds a lock to its route's open epoch; a lock already batched stays in its epoch
+    public add(lock: LockEvent): LockEpoch {
+        const existing = this.store.findByLock(lock.lockId);
+        if (existing) return existing;
+
+        const open = this.store.open(lock.sourceChainId, lock.targetChainId, new Date(this.now()));
+        const epoch: LockEpoch = { ...open, locks: [...open.locks, lock] };
+        this.store.save(epoch);
+
+        return epoch.locks.length >= this.config.maxBatchSize ? this.seal(epoch.id) : epoch;
+    }
+
+    /**
+     * Takes locks a reorg removed out of every epoch whose root has not been
+     * relayed: open epochs just lose them, sealed ones are sealed again without
+     * them, or marked retracted once empty. Epochs in `inFlight` are being
+     * committed and keep their locks. Returns the lock IDs taken out.
+     */
+    public retract(lockIds: string[], inFlight: ReadonlySet<string> = new Set()): string[] {
+        const retracted: string[] = [];
+        const pending = [...this.store.list('open'), ...this.store.list('sealed').filter(epoch => !inFlight.has(epoch.id))];
+
+        for (const epoch of pending) {
+            const locks = epoch.locks.filter(lock => !lockIds.includes(lock.lockId));
+            if (locks.length === epoch.locks.length) continue;
+
+            retracted.push(...epoch.locks.filter(lock => lockIds.includes(lock.lockId)).map(lock => lock.lockId));
+            if (epoch.status === 'open') {
+                this.store.save({ ...epoch, locks });
+            } else if (locks.length === 0) {
+                this.store.save({ ...epoch, locks, root: undefined, status: 'retracted' });
+            } else {
+                this.sealLocks({ ...epoch, locks });
+            }
+        }
+        return retracted;
+    }
+
+    // Seals every open epoch older than epochDuration
+    public sealDue(): LockEpoch[] {
+        return this.store.list('open')
+            .filter(epoch => epoch.locks.length > 0 && this.now() - Date.parse(epoch.openedAt) >= this.config.epochDuration)
+            .map(epoch => this.seal(epoch.id));
+    }
+
+    public seal(epochId: string): LockEpoch {
+        const open = this.store.get(epochId);
+        if (!open || open.status !== 'open') {
+            throw new Error(`No open epoch ${epochId}`);
+        }
+        return this.sealLocks(open);
+    }
+
+    private sealLocks(unsealed: LockEpoch): LockEpoch {
+        const tree = new MerkleTree(unsealed.locks.map(getLockLeaf));
+        const epoch: LockEpoch = {
+            ...unsealed,
+            status: 'sealed',
+            root: tree.root,
+            sealedAt: new Date(this.now()).toISOString()
+        };
+        this.store.save(epoch);
+        this.emit('sealed', epoch);
+        return epoch;
+    }
+
+    public markCommitted(epochId: string, txHash: string): LockEpoch {
+        const sealed = this.store.get(epochId);
+        if (!sealed || sealed.status === 'open' || sealed.status === 'retracted') {
+            throw new Error(`No sealed epoch ${epochId}`);
+        }
+
+        const epoch: LockEpoch = {
+            ...sealed,
+            status: 'committed',
+            commitTxHash: txHash,
+            committedAt: new Date(this.now()).toISOString()
+        };
+        this.store.save(epoch);
+        return epoch;
+    }
+
+    // Sealed epochs whose root has not reached the target chain yet
+    public uncommitted(): LockEpoch[] {
+        return this.store.list('sealed');
+    }
+
+    // Drops epochs committed longer than retainCommitted ago
+    public prune(): LockEpoch[] {
+        return this.store.prune(new Date(this.now() - this.config.retainCommitted));
+    }
+
+    public getInclusionProof(lockId: string): InclusionProof {
+        const epoch = this.store.findByLock(lockId);
+        if (!epoch || !epoch.root) {
+            throw new Error(`Lock ${lockId} is not in a sealed epoch`);
+        }
+
+        const lock = epoch.locks.find(candidate => candidate.lockId === lockId)!;
+        const leaf = getLockLeaf(lock);
+        const tree = new MerkleTree(epoch.locks.map(getLockLeaf));
+        return { epochId: epoch.id, root: epoch.root, leaf, proof: tree.getProof(leaf), lock };
+    }
+}
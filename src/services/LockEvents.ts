@@ -0,0 +1,89 @@
+import { ethers } from "ethers";
+import { BRIDGE_LOCK_ABI } from "./abis";
+
+export type LockKind = 'ERC20' | 'ERC721' | 'ERC1155' | 'ERC1155_BATCH';
+
+export interface LockEvent {
+    kind: LockKind;
+    lockId: string;
+    asset: string;
+    sender: string;
+    recipient: string;
+    tokenIds: string[];
+    amounts: string[];
+    sourceChainId: number;
+    targetChainId: number;
+    blockNumber: number;
+    blockHash: string;
+    transactionHash: string;
+    logIndex: number;
+}
+
+const LOCK_EVENT_KINDS: Record<string, LockKind> = {
+    TokensLocked: 'ERC20',
+    NFTLocked: 'ERC721',
+    NFT1155Locked: 'ERC1155',
+    NFT1155BatchLocked: 'ERC1155_BATCH'
+};
+
+export const lockEventInterface = new ethers.utils.Interface(BRIDGE_LOCK_ABI);
+
+// Topic filter matching any lock event, for use as `topics: [LOCK_EVENT_TOPICS]`
+export const LOCK_EVENT_TOPICS = Object.keys(LOCK_EVENT_KINDS).map(name => lockEventInterface.getEventTopic(name));
+
+export function parseLockLog(log: ethers.providers.Log, sourceChainId: number): LockEvent | undefined {
+    let parsed: ethers.utils.LogDescription;
+    try {
+        parsed = lockEventInterface.parseLog(log);
+    } catch {
+        return undefined;
+    }
+
+    const kind = LOCK_EVENT_KINDS[parsed.name];
+    if (!kind) return undefined;
+
+    const { args } = parsed;
+    let targetChainId: number;
+    try {
+        targetChainId = args.targetChainId.toNumber();
+    } catch {
+        // No chain has an ID past 2^53; skipping the log keeps it from stalling ingestion
+        return undefined;
+    }
+
+    let tokenIds: ethers.BigNumber[] = [];
+    let amounts: ethers.BigNumber[];
+    switch (kind) {
+        case 'ERC20':
+            amounts = [args.amount];
+            break;
+        case 'ERC721':
+            tokenIds = [args.tokenId];
+            amounts = [ethers.BigNumber.from(1)];
+            break;
+        case 'ERC1155':
+            tokenIds = [args.tokenId];
+            amounts = [args.amount];
+            break;
+        case 'ERC1155_BATCH':
+            tokenIds = args.tokenIds;
+            amounts = args.amounts;
+            break;
+    }
+
+    return {
+        kind,
+        lockId: args.lockId,
+        asset: kind === 'ERC20' ? args.token : args.collection,
+        sender: args.sender,
+        recipient: args.recipient,
+        tokenIds: tokenIds.map(id => id.toString()),
+        amounts: amounts.map(amount => amount.toString()),
+        sourceChainId,
+        targetChainId,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex
+    };
+}
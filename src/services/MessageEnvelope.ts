@@ -0,0 +1,132 @@
+import { ethers } from "ethers";
+import { BridgeError, BridgeErrorType } from "../utils/BridgeErrors";
+import type { LockEvent } from "./LockEvents";
+import type { TrackedMessage } from "../utils/MonitoringService";
+
+export const ENVELOPE_VERSION = 1;
+
+// Encoded as uint8: never renumber or reuse a value
+export enum PayloadType {
+    // abi.encode(string kind, address asset, uint256[] tokenIds, uint256[] amounts)
+    Lock = 1,
+    // Raw calldata for `recipient` on the destination chain
+    Call = 2,
+    // abi.encode(bytes32 root, uint256 lockCount) of a sealed lock epoch
+    EpochCommitment = 3
+}
+
+/**
+ * The one shape every cross-chain message takes, whatever it carries. Lock
+ * leaves, mirrored calls and epoch commitments are all envelopes, encoded with
+ * encodeEnvelope and identified by getEnvelopeHash. Claim proofs are the
+ * exception; ClaimProofs explains why.
+ */
+export interface MessageEnvelope {
+    version: number;
+    sourceChainId: number;
+    destinationChainId: number;
+    // uint256 as a decimal string; unique per source chain and payload type
+    nonce: string;
+    sender: string;
+    recipient: string;
+    payloadType: PayloadType;
+    payload: string;
+}
+
+const ENVELOPE_ABI = "tuple(uint8 version, uint256 sourceChainId, uint256 destinationChainId, uint256 nonce, address sender, address recipient, uint8 payloadType, bytes payload)";
+
+const LOCK_PAYLOAD_TYPES = ["string", "address", "uint256[]", "uint256[]"];
+
+export const ENVELOPE_DOMAIN: ethers.TypedDataDomain = {
+    name: "BridgeMessage",
+    version: "1"
+};
+
+export const ENVELOPE_TYPES: Record<string, ethers.TypedDataField[]> = {
+    MessageEnvelope: [
+        { name: "version", type: "uint8" },
+        { name: "sourceChainId", type: "uint256" },
+        { name: "destinationChainId", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "sender", type: "address" },
+        { name: "recipient", type: "address" },
+        { name: "payloadType", type: "uint8" },
+        { name: "payload", type: "bytes" }
+    ]
+};
+
+function invalidEnvelope(reason: string, details?: Record<string, any>): BridgeError {
+    return new BridgeError({
+        type: BridgeErrorType.InvalidData,
+        message: `Invalid message envelope: ${reason}`,
+        details
+    });
+}
+
+function checkEnvelope(envelope: MessageEnvelope): void {
+    if (envelope.version !== ENVELOPE_VERSION) {
+        throw invalidEnvelope(`unsupported version ${envelope.version}`, { version: envelope.version });
+    }
+    if (!PayloadType[envelope.payloadType]) {
+        throw invalidEnvelope(`unknown payload type ${envelope.payloadType}`, { payloadType: envelope.payloadType });
+    }
+}
+
+export function encodeEnvelope(envelope: MessageEnvelope): string {
+    checkEnvelope(envelope);
+    return ethers.utils.defaultAbiCoder.encode([ENVELOPE_ABI], [envelope]);
+}
+
+/**
+ * Only the canonical encoding of a supported version is accepted, so one
+ * message can never be presented under two different encodings.
+ */
+export function decodeEnvelope(data: string): MessageEnvelope {
+    let envelope: MessageEnvelope;
+    try {
+        const [decoded] = ethers.utils.defaultAbiCoder.decode([ENVELOPE_ABI], data);
+        envelope = {
+            version: decoded.version,
+            sourceChainId: decoded.sourceChainId.toNumber(),
+            destinationChainId: decoded.destinationChainId.toNumber(),
+            nonce: decoded.nonce.toString(),
+            sender: decoded.sender,
+            recipient: decoded.recipient,
+            payloadType: decoded.payloadType,
+            payload: decoded.payload
+        };
+    } catch {
+        throw invalidEnvelope("not an ABI-encoded envelope", { data });
+    }
+
+    checkEnvelope(envelope);
+    if (encodeEnvelope(envelope) !== data.toLowerCase()) {
+        throw invalidEnvelope("non-canonical encoding", { data });
+    }
+    return envelope;
+}
+
+// EIP-712 struct hash under ENVELOPE_DOMAIN; cannot collide with hashes made for any other purpose
+export function getEnvelopeHash(envelope: MessageEnvelope): string {
+    checkEnvelope(envelope);
+    return ethers.utils._TypedDataEncoder.hash(ENVELOPE_DOMAIN, ENVELOPE_TYPES, envelope);
+}
+
+// What MonitoringService records about the message an envelope carries
+export function getTrackedMessage(envelope: MessageEnvelope): TrackedMessage {
+    return { envelopeHash: getEnvelopeHash(envelope), payloadType: PayloadType[envelope.payloadType] };
+}
+
+// The lock ID is the nonce: the source bridge already guarantees it is unique
+export function lockEnvelope(lock: LockEvent): MessageEnvelope {
+    return {
+        version: ENVELOPE_VERSION,
+        sourceChainId: lock.sourceChainId,
+        destinationChainId: lock.targetChainId,
+        nonce: ethers.BigNumber.from(lock.lockId).toString(),
+        sender: lock.sender,
+        recipient: lock.recipient,
+        payloadType: PayloadType.Lock,
+        payload: ethers.utils.defaultAbiCoder.encode(LOCK_PAYLOAD_TYPES, [lock.kind, lock.asset, lock.tokenIds, lock.amounts])
+    };
+}
@@ -0,0 +1,128 @@
+import { ethers } from "ethers";
+import { BRIDGE_MIRROR_ABI } from "./abis";
+import { decodeEnvelope, ENVELOPE_VERSION, MessageEnvelope, PayloadType } from "./MessageEnvelope";
+
+// What the mirrored `data` carries: a call to make on another chain
+export interface MessagePayload {
+    targetChainId: number;
+    target: string;
+    callData: string;
+}
+
+export interface MirroredMessage {
+    // Unique per emitted event: chain it was seen on, emitting transaction and log index
+    messageId: string;
+    sourceChainId: number;
+    sourceAddress: string;
+    transactionHash: string;
+    data: string;
+    // Undefined when `data` is neither a Call envelope nor a legacy MessagePayload
+    payload?: MessagePayload;
+    envelope?: MessageEnvelope;
+    observedChainId: number;
+    blockNumber: number;
+    blockHash: string;
+    logTransactionHash: string;
+    logIndex: number;
+}
+
+const PAYLOAD_TYPES = ["uint256", "address", "bytes"];
+
+export const mirrorEventInterface = new ethers.utils.Interface(BRIDGE_MIRROR_ABI);
+
+export const TRANSACTION_MIRRORED_TOPIC = mirrorEventInterface.getEventTopic("TransactionMirrored");
+
+// Pre-envelope layout of `data`, still accepted from senders that have not moved to Call envelopes
+export function encodeMessagePayload(payload: MessagePayload): string {
+    return ethers.utils.defaultAbiCoder.encode(PAYLOAD_TYPES, [payload.targetChainId, payload.target, payload.callData]);
+}
+
+export function decodeMessagePayload(data: string): MessagePayload | undefined {
+    try {
+        const [targetChainId, target, callData] = ethers.utils.defaultAbiCoder.decode(PAYLOAD_TYPES, data);
+        return { targetChainId: targetChainId.toNumber(), target, callData };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * The Call envelope a mirrored `data` field stands for. Envelopes must name the
+ * chain the event says they come from and, as sender, the contract that emitted
+ * it; the event's own sourceAddress argument is caller-supplied. Legacy payloads
+ * are wrapped in one from the emitter, with the message ID as nonce.
+ */
+export function getMessageEnvelope(
+    sourceChainId: number,
+    emitter: string,
+    messageId: string,
+    data: string
+): MessageEnvelope | undefined {
+    try {
+        const envelope = decodeEnvelope(data);
+        const authentic = envelope.sourceChainId === sourceChainId
+            && envelope.sender.toLowerCase() === emitter.toLowerCase();
+        return envelope.payloadType === PayloadType.Call && authentic ? envelope : undefined;
+    } catch {
+        // Not an envelope; fall through to the legacy layout
+    }
+
+    const payload = decodeMessagePayload(data);
+    if (!payload) return undefined;
+    return {
+        version: ENVELOPE_VERSION,
+        sourceChainId,
+        destinationChainId: payload.targetChainId,
+        nonce: ethers.BigNumber.from(messageId).toString(),
+        sender: ethers.utils.getAddress(emitter),
+        recipient: payload.target,
+        payloadType: PayloadType.Call,
+        payload: payload.callData
+    };
+}
+
+export function getMessageId(observedChainId: number, transactionHash: string, logIndex: number): string {
+    return ethers.utils.keccak256(
+        ethers.utils.defaultAbiCoder.encode(["uint256", "bytes32", "uint256"], [observedChainId, transactionHash, logIndex])
+    );
+}
+
+export function parseMirroredLog(log: ethers.providers.Log, observedChainId: number): MirroredMessage | undefined {
+    if (log.topics[0] !== TRANSACTION_MIRRORED_TOPIC) return undefined;
+
+    let parsed: ethers.utils.LogDescription;
+    try {
+        parsed = mirrorEventInterface.parseLog(log);
+    } catch {
+        return undefined;
+    }
+
+    const { args } = parsed;
+    let sourceChainId: number;
+    try {
+        sourceChainId = args.sourceChainId.toNumber();
+    } catch {
+        // No chain has an ID past 2^53; skipping the log keeps it from stalling ingestion
+        return undefined;
+    }
+    const messageId = getMessageId(observedChainId, log.transactionHash, log.logIndex);
+    const envelope = getMessageEnvelope(sourceChainId, log.address, messageId, args.data);
+    return {
+        messageId,
+        sourceChainId,
+        sourceAddress: args.sourceAddress,
+        transactionHash: args.transactionHash,
+        data: args.data,
+        payload: envelope && {
+            targetChainId: envelope.destinationChainId,
+            target: envelope.recipient,
+            callData: envelope.payload
+        },
+        envelope,
+        observedChainId,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logTransactionHash: log.transactionHash,
+        logIndex: log.logIndex
+    };
+}
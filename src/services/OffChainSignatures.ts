@@ -0,0 +1,169 @@
+import { ethers } from "ethers";
+import type { TypedDataSigner } from "@ethersproject/abstract-signer";
+import { BridgeError, BridgeErrorType } from "../utils/BridgeErrors";
+import { JsonFileStore } from "../utils/JsonFileStore";
+
+export interface OffChainProposal {
+    target: string;
+    value: string;
+    data: string;
+    nonce: string;
+    deadline: number;
+}
+
+export interface CollectedSignature {
+    signer: string;
+    signature: string;
+}
+
+interface StoredProposal {
+    proposal: OffChainProposal;
+    signatures: CollectedSignature[];
+}
+
+export const OFF_CHAIN_PROPOSAL_TYPES: Record<string, ethers.TypedDataField[]> = {
+    Proposal: [
+        { name: "target", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "data", type: "bytes" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+    ]
+};
+
+export function getGovernanceDomain(governanceAddress: string, chainId: number): ethers.TypedDataDomain {
+    return {
+        name: "BridgeGovernance",
+        version: "1",
+        chainId,
+        verifyingContract: governanceAddress
+    };
+}
+
+/**
+ * Signatures keyed by proposal digest. Without a file path the store only
+ * lives for the current process.
+ */
+export class SignatureStore {
+    private readonly file?: JsonFileStore<Record<string, StoredProposal>>;
+    private readonly memory: Record<string, StoredProposal> = {};
+
+    constructor(filePath?: string) {
+        if (filePath) {
+            this.file = new JsonFileStore(filePath, () => ({}));
+        }
+    }
+
+    get(digest: string): StoredProposal | undefined {
+        return this.file ? this.file.read()[digest] : this.memory[digest];
+    }
+
+    put(digest: string, entry: StoredProposal): void {
+        if (this.file) {
+            this.file.update(entries => { entries[digest] = entry; });
+        } else {
+            this.memory[digest] = entry;
+        }
+    }
+
+    delete(digest: string): void {
+        if (this.file) {
+            this.file.update(entries => { delete entries[digest]; });
+        } else {
+            delete this.memory[digest];
+        }
+    }
+}
+
+/**
+ * Collects EIP-712 signatures over a governance proposal so admins can
+ * approve it off-chain before a single submitter proposes it on-chain.
+ */
+export class OffChainSignatureCollector {
+    private readonly domain: ethers.TypedDataDomain;
+    private readonly store: SignatureStore;
+
+    constructor(governanceAddress: string, chainId: number, store: SignatureStore = new SignatureStore()) {
+        this.domain = getGovernanceDomain(governanceAddress, chainId);
+        this.store = store;
+    }
+
+    digest(proposal: OffChainProposal): string {
+        return ethers.utils._TypedDataEncoder.hash(this.domain, OFF_CHAIN_PROPOSAL_TYPES, proposal);
+    }
+
+    async sign(signer: ethers.Signer & TypedDataSigner, proposal: OffChainProposal): Promise<CollectedSignature> {
+        const signature = await signer._signTypedData(this.domain, OFF_CHAIN_PROPOSAL_TYPES, proposal);
+        return { signer: await signer.getAddress(), signature };
+    }
+
+    recover(proposal: OffChainProposal, signature: string): string {
+        return ethers.utils.verifyTypedData(this.domain, OFF_CHAIN_PROPOSAL_TYPES, proposal, signature);
+    }
+
+    addSignature(proposal: OffChainProposal, collected: CollectedSignature): void {
+        let recovered: string;
+        try {
+            recovered = this.recover(proposal, collected.signature);
+        } catch {
+            recovered = ethers.constants.AddressZero;
+        }
+
+        if (recovered !== ethers.utils.getAddress(collected.signer)) {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidSignature,
+                message: `Signature does not belong to ${collected.signer}`,
+                details: { expected: collected.signer, recovered }
+            });
+        }
+
+        const digest = this.digest(proposal);
+        const entry = this.store.get(digest) || { proposal, signatures: [] };
+        if (entry.signatures.some(s => s.signer === recovered)) {
+            throw new BridgeError({
+                type: BridgeErrorType.AlreadySigned,
+                message: `${recovered} has already signed proposal ${digest}`,
+                details: { signer: recovered, digest }
+            });
+        }
+
+        entry.signatures.push({ signer: recovered, signature: collected.signature });
+        this.store.put(digest, entry);
+    }
+
+    getSignatures(proposal: OffChainProposal): CollectedSignature[] {
+        return this.store.get(this.digest(proposal))?.signatures || [];
+    }
+
+    /**
+     * Returns the approving signatures, sorted by signer address, once they
+     * meet the threshold.
+     */
+    collect(proposal: OffChainProposal, threshold: number, allowedSigners?: string[]): string[] {
+        const allowed = allowedSigners && new Set(allowedSigners.map(a => ethers.utils.getAddress(a)));
+        const signatures = this.getSignatures(proposal)
+            .filter(s => !allowed || allowed.has(s.signer))
+            .sort((a, b) => (a.signer.toLowerCase() < b.signer.toLowerCase() ? -1 : 1));
+
+        if (signatures.length < threshold) {
+            throw new BridgeError({
+                type: BridgeErrorType.InsufficientSignatures,
+                message: `Insufficient signatures: ${signatures.length}/${threshold}`,
+                details: { current: signatures.length, required: threshold }
+            });
+        }
+        if (proposal.deadline * 1000 < Date.now()) {
+            throw new BridgeError({
+                type: BridgeErrorType.DeadlineExpired,
+                message: `Proposal deadline ${new Date(proposal.deadline * 1000).toISOString()} has passed`,
+                details: { deadline: proposal.deadline }
+            });
+        }
+
+        return signatures.map(s => s.signature);
+    }
+
+    clear(proposal: OffChainProposal): void {
+        this.store.delete(this.digest(proposal));
+    }
+}
@@ -0,0 +1,195 @@
+import { ethers } from "ethers";
+import { BridgeRole, PendingTransaction } from "../admin-panel/types/BridgeAdmin";
+import { BridgeActionCodec } from "./BridgeActionCodec";
+import { BRIDGE_MIRROR_ABI, DIAMOND_CUT_ABI, GOVERNANCE_ABI, GOVERNANCE_FACET_ABI } from "./abis";
+
+export interface StateChange {
+    field: string;
+    current: string;
+    proposed: string;
+}
+
+export interface ProposalReview {
+    txHash: string;
+    target: string;
+    value: string;
+    data: string;
+    contract: string;
+    functionName?: string;
+    args: Record<string, string>;
+    description: string;
+    changes: StateChange[];
+    warnings: string[];
+    signatureCount: number;
+    requiredSignatures: number;
+}
+
+const KNOWN_CONTRACTS: [string, ethers.utils.Interface][] = [
+    ["BridgeMirror", new ethers.utils.Interface(BRIDGE_MIRROR_ABI)],
+    ["BridgeGovernance", new ethers.utils.Interface(GOVERNANCE_ABI)],
+    ["GovernanceFacet", new ethers.utils.Interface(GOVERNANCE_FACET_ABI)],
+    ["DiamondCut", new ethers.utils.Interface(DIAMOND_CUT_ABI)]
+];
+
+const FACET_CUT_ACTIONS = ['Add', 'Replace', 'Remove'];
+
+/**
+ * Builds a human-readable report of what a pending multisig proposal would do,
+ * including the on-chain values it is about to overwrite.
+ */
+export class ProposalReviewer {
+    private readonly provider: ethers.providers.Provider;
+    private readonly bridgeAddress: string;
+    private readonly governanceAddress: string;
+
+    constructor(provider: ethers.providers.Provider, bridgeAddress: string, governanceAddress: string) {
+        this.provider = provider;
+        this.bridgeAddress = ethers.utils.getAddress(bridgeAddress);
+        this.governanceAddress = ethers.utils.getAddress(governanceAddress);
+    }
+
+    async review(pending: PendingTransaction): Promise<ProposalReview> {
+        const target = ethers.utils.getAddress(pending.target);
+        const review: ProposalReview = {
+            txHash: pending.hash,
+            target,
+            value: pending.value,
+            data: pending.data,
+            contract: "Unknown",
+            args: {},
+            description: `Unrecognized call ${pending.data.slice(0, 10)} to ${target}`,
+            changes: [],
+            warnings: [],
+            signatureCount: pending.signatureCount,
+            requiredSignatures: pending.requiredSignatures
+        };
+
+        if (target !== this.bridgeAddress && target !== this.governanceAddress) {
+            review.warnings.push(`Target ${target} is neither the bridge nor its governance contract`);
+        }
+        if (pending.undecoded) {
+            review.warnings.push("Proposal calldata could not be recovered from the proposing transaction");
+        }
+        if (!ethers.BigNumber.from(pending.value).isZero()) {
+            review.warnings.push(`Proposal transfers ${ethers.utils.formatEther(pending.value)} native tokens`);
+        }
+
+        const decoded = ProposalReviewer.decodeCall(pending.data);
+        if (!decoded) {
+            review.warnings.push("Calldata does not match any known bridge ABI");
+            return review;
+        }
+
+        const [contract, call] = decoded;
+        review.contract = contract;
+        review.functionName = call.name;
+        review.args = ProposalReviewer.formatArgs(call);
+        review.description = ProposalReviewer.describe(call);
+        review.changes = await this.diffState(target, call, review.warnings);
+
+        return review;
+    }
+
+    static decodeCall(data: string): [string, ethers.utils.TransactionDescription] | undefined {
+        for (const [name, contractInterface] of KNOWN_CONTRACTS) {
+            try {
+                return [name, contractInterface.parseTransaction({ data })];
+            } catch {
+                // Try the next ABI
+            }
+        }
+        return undefined;
+    }
+
+    private static describe(call: ethers.utils.TransactionDescription): string {
+        const { args } = call;
+
+        switch (call.name) {
+            case "toggleFeature":
+                return BridgeActionCodec.describe({ type: 'TOGGLE_FEATURE', params: { feature: args.feature, enabled: args.enabled } });
+            case "updateSupportedChain":
+                return BridgeActionCodec.describe({ type: 'UPDATE_CHAIN', params: { chainId: args.chainId, supported: args.supported } });
+            case "assignRole":
+                return BridgeActionCodec.describe({ type: 'UPDATE_ROLE', params: { account: args.account, role: args.role } });
+            case "revokeRole":
+                return BridgeActionCodec.describe({ type: 'UPDATE_ROLE', params: { account: args.account, role: BridgeRole.NONE } });
+            case "updateThreshold":
+                return BridgeActionCodec.describe({ type: 'UPDATE_THRESHOLD', params: { threshold: args.newThreshold } });
+            case "diamondCut": {
+                const cuts = (args._diamondCut as ethers.utils.Result[]).map(cut =>
+                    `${FACET_CUT_ACTIONS[cut.action] ?? `Action ${cut.action}`} ${cut.functionSelectors.length} selector(s) on ${cut.facetAddress}`
+                );
+                const init = args._init === ethers.constants.AddressZero ? "" : `, then delegatecall ${args._init}`;
+                return `Diamond cut: ${cuts.join("; ")}${init}`;
+            }
+            default:
+                return `${call.name}(${Object.values(ProposalReviewer.formatArgs(call)).join(", ")})`;
+        }
+    }
+
+    private static formatArgs(call: ethers.utils.TransactionDescription): Record<string, string> {
+        const formatted: Record<string, string> = {};
+        call.functionFragment.inputs.forEach((input, i) => {
+            const value = call.args[i];
+            formatted[input.name || `arg${i}`] = typeof value === "string" ? value : JSON.stringify(value, (_, v) =>
+                ethers.BigNumber.isBigNumber(v) ? v.toString() : v
+            );
+        });
+        return formatted;
+    }
+
+    private async diffState(
+        target: string,
+        call: ethers.utils.TransactionDescription,
+        warnings: string[]
+    ): Promise<StateChange[]> {
+        const { args } = call;
+        const read = async (field: string, contractAbi: string[], method: string, params: any[], proposed: string) => {
+            try {
+                const contract = new ethers.Contract(target, contractAbi, this.provider);
+                const current = await contract[method](...params);
+                return { field, current: current.toString(), proposed };
+            } catch {
+                warnings.push(`Could not read current value of ${field}`);
+                return { field, current: "unavailable", proposed };
+            }
+        };
+
+        switch (call.name) {
+            case "toggleFeature":
+                return [await read(`feature ${args.feature}`, BRIDGE_MIRROR_ABI, "isFeatureEnabled", [args.feature], String(args.enabled))];
+            case "updateSupportedChain":
+                return [await read(`chain ${args.chainId} supported`, BRIDGE_MIRROR_ABI, "isChainSupported", [args.chainId], String(args.supported))];
+            case "updateThreshold":
+                return [await read("signature threshold", GOVERNANCE_ABI, "getThreshold", [], args.newThreshold.toString())];
+            case "assignRole":
+            case "revokeRole": {
+                const proposed = call.name === "assignRole" ? BridgeRole[args.role] ?? String(args.role) : BridgeRole[BridgeRole.NONE];
+                return [{ field: `role of ${args.account}`, current: await this.currentRole(target, args.account, warnings), proposed }];
+            }
+            case "setVotingPower":
+                return [await read(`voting power of ${args.account}`, GOVERNANCE_FACET_ABI, "getVotingPower", [args.account], args.newVotingPower.toString())];
+            default: {
+                // GovernanceFacet setters pair with a getter of the same name: setVotingDelay -> votingDelay
+                const getter = call.name.startsWith("set") && call.name.charAt(3).toLowerCase() + call.name.slice(4);
+                if (getter && call.args.length === 1 && GOVERNANCE_FACET_ABI.some(f => f.startsWith(`function ${getter}()`))) {
+                    return [await read(getter, GOVERNANCE_FACET_ABI, getter, [], args[0].toString())];
+                }
+                return [];
+            }
+        }
+    }
+
+    private async currentRole(target: string, account: string, warnings: string[]): Promise<string> {
+        const governance = new ethers.Contract(target, GOVERNANCE_ABI, this.provider);
+        try {
+            for (const role of [BridgeRole.GUARDIAN, BridgeRole.ADMIN, BridgeRole.OPERATOR]) {
+                if (await governance.hasRole(account, role)) return BridgeRole[role];
+            }
+            return BridgeRole[BridgeRole.NONE];
+        } catch {
+            warnings.push(`Could not read current role of ${account}`);
+            return "unavailable";
+        }
+    }
+}
@@ -0,0 +1,234 @@
+import { ethers } from "ethers";
+import { BridgeError, BridgeErrorType } from "../utils/BridgeErrors";
+import { MerklePatriciaTrie } from "../utils/MerklePatriciaTrie";
+import { LockEvent, lockEventInterface, parseLockLog } from "./LockEvents";
+import { getEnvelopeHash, lockEnvelope } from "./MessageEnvelope";
+
+/**
+ * Merkle-Patricia proof that a TokensLocked log is part of a source-chain
+ * block. Anyone holding a trusted hash for that block can check it without
+ * asking an operator or an RPC node.
+ */
+export interface LockReceiptProof {
+    // getEnvelopeHash(lockEnvelope(lock)) of the proven lock
+    envelopeHash: string;
+    blockNumber: number;
+    blockHash: string;
+    // RLP-encoded block header; hashes to blockHash
+    header: string;
+    // For reference only: receipts do not commit to the transaction hash
+    transactionHash: string;
+    transactionIndex: number;
+    // Position of the lock among the receipt's own logs, not in the block
+    receiptLogIndex: number;
+    // Receipts-trie nodes from receiptsRoot down to the receipt
+    proof: string[];
+}
+
+// What the verifier must already trust about the source chain
+export interface TrustedSource {
+    chainId: number;
+    blockHash: string;
+    bridgeAddress: string;
+}
+
+// Field order of the RLP header; later forks only ever append
+const HEADER_FIELDS = [
+    "parentHash", "sha3Uncles", "miner", "stateRoot", "transactionsRoot", "receiptsRoot", "logsBloom",
+    "difficulty", "number", "gasLimit", "gasUsed", "timestamp", "extraData", "mixHash", "nonce"
+];
+const OPTIONAL_HEADER_FIELDS = [
+    "baseFeePerGas", "withdrawalsRoot", "blobGasUsed", "excessBlobGas", "parentBeaconBlockRoot", "requestsHash"
+];
+const QUANTITY_FIELDS = new Set([
+    "difficulty", "number", "gasLimit", "gasUsed", "timestamp", "baseFeePerGas", "blobGasUsed", "excessBlobGas"
+]);
+const RECEIPTS_ROOT_INDEX = HEADER_FIELDS.indexOf("receiptsRoot");
+const NUMBER_INDEX = HEADER_FIELDS.indexOf("number");
+
+const TOKENS_LOCKED_TOPIC = lockEventInterface.getEventTopic("TokensLocked");
+
+// RLP integers are big-endian without leading zeros; zero is the empty string
+function quantity(value: string): string {
+    const number = ethers.BigNumber.from(value);
+    return number.isZero() ? "0x" : number.toHexString();
+}
+
+// Raw JSON-RPC block (eth_getBlockBy*) to its RLP header
+export function encodeBlockHeader(block: Record<string, any>): string {
+    const present = OPTIONAL_HEADER_FIELDS.filter(field => block[field] !== undefined && block[field] !== null);
+    if (present.some((field, i) => field !== OPTIONAL_HEADER_FIELDS[i])) {
+        throw new Error(`Block ${block.hash} has a gap in its optional header fields`);
+    }
+    const fields = [...HEADER_FIELDS, ...present];
+
+    return ethers.utils.RLP.encode(fields.map(field => {
+        const value = block[field];
+        if (value === undefined || value === null) {
+            throw new Error(`Block ${block.hash} is missing header field ${field}`);
+        }
+        return QUANTITY_FIELDS.has(field) ? quantity(value) : value;
+    }));
+}
+
+// Raw JSON-RPC receipt to its consensus encoding, as stored in the receipts trie
+export function encodeReceipt(receipt: Record<string, any>): string {
+    const outcome = receipt.status !== undefined && receipt.status !== null ? quantity(receipt.status) : receipt.root;
+    const encoded = ethers.utils.RLP.encode([
+        outcome,
+        quantity(receipt.cumulativeGasUsed),
+        receipt.logsBloom,
+        receipt.logs.map((log: Record<string, any>) => [log.address, log.topics, log.data])
+    ]);
+
+    const type = receipt.type ? ethers.BigNumber.from(receipt.type).toNumber() : 0;
+    return type === 0 ? encoded : ethers.utils.hexConcat([ethers.utils.hexlify(type), encoded]);
+}
+
+// Receipts are keyed by the RLP-encoded transaction index
+function receiptKey(transactionIndex: number): string {
+    return ethers.utils.RLP.encode(quantity(ethers.utils.hexlify(transactionIndex)));
+}
+
+async function getBlockReceipts(provider: ethers.providers.JsonRpcProvider, block: Record<string, any>): Promise<Record<string, any>[]> {
+    try {
+        const receipts = await provider.send("eth_getBlockReceipts", [block.hash]);
+        if (Array.isArray(receipts)) return receipts;
+    } catch {
+        // Not every node has eth_getBlockReceipts; fall back to one call per transaction
+    }
+    return Promise.all(block.transactions.map((hash: string) => provider.send("eth_getTransactionReceipt", [hash])));
+}
+
+/**
+ * Rebuilds the receipts trie of the block containing a lock transaction and
+ * proves the receipt holding its TokensLocked log. The rebuilt root and header
+ * are checked against the node's block before the proof is returned.
+ */
+export async function buildLockReceiptProof(
+    provider: ethers.providers.JsonRpcProvider,
+    transactionHash: string,
+    bridgeAddress: string
+): Promise<LockReceiptProof> {
+    const receipt = await provider.send("eth_getTransactionReceipt", [transactionHash]);
+    if (!receipt) {
+        throw new Error(`Transaction ${transactionHash} has no receipt yet`);
+    }
+
+    const receiptLogIndex = (receipt.logs as Record<string, any>[]).findIndex(log =>
+        log.topics[0] === TOKENS_LOCKED_TOPIC && log.address.toLowerCase() === bridgeAddress.toLowerCase()
+    );
+    if (receiptLogIndex < 0) {
+        throw new BridgeError({
+            type: BridgeErrorType.InvalidData,
+            message: `Transaction ${transactionHash} emitted no TokensLocked event from ${bridgeAddress}`,
+            details: { transactionHash, bridgeAddress }
+        });
+    }
+
+    const block = await provider.send("eth_getBlockByHash", [receipt.blockHash, false]);
+    if (!block) {
+        throw new Error(`Block ${receipt.blockHash} is no longer available`);
+    }
+
+    const header = encodeBlockHeader(block);
+    if (ethers.utils.keccak256(header) !== block.hash) {
+        throw new Error(`Header of block ${block.hash} does not hash to the block hash`);
+    }
+
+    const receipts = await getBlockReceipts(provider, block);
+    const trie = new MerklePatriciaTrie(receipts.map(entry => ({
+        key: receiptKey(ethers.BigNumber.from(entry.transactionIndex).toNumber()),
+        value: encodeReceipt(entry)
+    })));
+    if (trie.root !== block.receiptsRoot) {
+        throw new Error(`Rebuilt receipts root ${trie.root} does not match block ${block.hash}`);
+    }
+
+    const transactionIndex = ethers.BigNumber.from(receipt.transactionIndex).toNumber();
+    const log = receipt.logs[receiptLogIndex];
+    const lock = parseLockLog({
+        address: ethers.utils.getAddress(log.address),
+        topics: log.topics,
+        data: log.data,
+        blockNumber: ethers.BigNumber.from(block.number).toNumber(),
+        blockHash: block.hash,
+        transactionHash,
+        transactionIndex,
+        logIndex: ethers.BigNumber.from(log.logIndex).toNumber(),
+        removed: false
+    }, (await provider.getNetwork()).chainId);
+    if (!lock) {
+        throw new Error(`TokensLocked log of ${transactionHash} does not decode`);
+    }
+
+    return {
+        envelopeHash: getEnvelopeHash(lockEnvelope(lock)),
+        blockNumber: ethers.BigNumber.from(block.number).toNumber(),
+        blockHash: block.hash,
+        header,
+        transactionHash,
+        transactionIndex,
+        receiptLogIndex,
+        proof: trie.getProof(receiptKey(transactionIndex))
+    };
+}
+
+/**
+ * Checks a lock receipt proof against a trusted block hash and returns the
+ * lock it proves. Throws InvalidData if the header, trie proof or log does not
+ * hold up.
+ */
+export function verifyLockReceiptProof(proof: LockReceiptProof, trusted: TrustedSource): LockEvent {
+    const invalid = (reason: string) => new BridgeError({
+        type: BridgeErrorType.InvalidData,
+        message: `Invalid lock receipt proof: ${reason}`,
+        details: { transactionHash: proof.transactionHash, blockHash: trusted.blockHash }
+    });
+
+    if (ethers.utils.keccak256(proof.header) !== trusted.blockHash.toLowerCase()) {
+        throw invalid("header does not hash to the trusted block hash");
+    }
+    const header = ethers.utils.RLP.decode(proof.header) as string[];
+    const blockNumber = ethers.BigNumber.from(header[NUMBER_INDEX] === "0x" ? 0 : header[NUMBER_INDEX]).toNumber();
+
+    let encoded: string;
+    try {
+        encoded = MerklePatriciaTrie.verify(header[RECEIPTS_ROOT_INDEX], receiptKey(proof.transactionIndex), proof.proof);
+    } catch (error) {
+        throw invalid(error instanceof Error ? error.message : String(error));
+    }
+
+    // Typed receipts carry a one-byte type prefix ahead of the RLP list
+    const bytes = ethers.utils.arrayify(encoded);
+    const [, , , logs] = ethers.utils.RLP.decode(bytes[0] < 0x80 ? bytes.slice(1) : bytes) as [string, string, string, string[][]];
+    const entry = logs[proof.receiptLogIndex];
+    if (!entry) {
+        throw invalid(`receipt has no log ${proof.receiptLogIndex}`);
+    }
+
+    const [address, topics, data] = entry as [string, string[], string];
+    if (address.toLowerCase() !== trusted.bridgeAddress.toLowerCase() || topics[0] !== TOKENS_LOCKED_TOPIC) {
+        throw invalid("log is not a TokensLocked event from the bridge");
+    }
+
+    const lock = parseLockLog({
+        address: ethers.utils.getAddress(address),
+        topics,
+        data,
+        blockNumber,
+        blockHash: trusted.blockHash,
+        transactionHash: proof.transactionHash,
+        transactionIndex: proof.transactionIndex,
+        // Block-wide log index is not committed to by the receipt
+        logIndex: proof.receiptLogIndex,
+        removed: false
+    }, trusted.chainId);
+    if (!lock) {
+        throw invalid("log does not decode as TokensLocked");
+    }
+    if (getEnvelopeHash(lockEnvelope(lock)) !== proof.envelopeHash) {
+        throw invalid(`log is not the lock with envelope hash ${proof.envelopeHash}`);
+    }
+    return lock;
+}
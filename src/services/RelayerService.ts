@@ -0,0 +1,518 @@
+import { ethers } from "ethers";
+import { EventEmitter } from "events";
+import type { NetworkManager } from "../../scripts/deploy/networks";
+import { BridgeService, UnlockResult } from "./BridgeService";
+import { LockEvent, LOCK_EVENT_TOPICS, parseLockLog } from "./LockEvents";
+import { MirroredMessage, parseMirroredLog, TRANSACTION_MIRRORED_TOPIC } from "./MirroredMessages";
+import { DEFAULT_REQUIRED_CONFIRMATIONS, EventIngester, ReorgNotice } from "./EventIngester";
+import { getEpochEnvelope, LockBatcher } from "./LockBatches";
+import { encodeEnvelope, getEnvelopeHash, getTrackedMessage, lockEnvelope } from "./MessageEnvelope";
+import { MonitoringService } from "../utils/MonitoringService";
+import { CursorStore } from "../utils/CursorStore";
+import { LockEpoch } from "../utils/EpochStore";
+import { RelayHistory } from "../utils/RelayHistory";
+import { MessageDeliveryStore } from "../utils/MessageDeliveryStore";
+import { DeadLetterAttempt, DeadLetterEvent, DeadLetterQueue, describeAttempt } from "../utils/DeadLetterQueue";
+import { classifyError, FailureClass, RetryPolicy } from "../utils/RetryPolicy";
+import { ChainConfig, NetworkConfig } from "../admin-panel/types/config";
+import { BridgeError, BridgeErrorType } from "../utils/BridgeErrors";
+
+interface Subscription {
+    provider: ethers.providers.Provider;
+    filter: ethers.EventFilter;
+    listener: (log: ethers.providers.Log) => void;
+}
+
+export interface RelayerIngestionOptions {
+    chains: Map<number, ChainConfig>;
+    cursorStore: CursorStore;
+    pollInterval: number;
+    // Chains without an entry are processed at the head block
+    networks?: Map<number, Pick<NetworkConfig, 'requiredConfirmations'>>;
+}
+
+// deadLettered: parked after a non-retryable failure until an operator requeues it
+export type RelaySkipReason = 'alreadyRelayed' | 'alreadyProcessed' | 'alreadyDelivered' | 'deadLettered';
+
+// What handling one lock or message ended in; 'relayed' covers both unlocks and message deliveries,
+// 'batched' a lock added to an epoch whose root is relayed later
+export type RelayOutcome = 'relayed' | 'batched' | 'failed' | 'undeliverable' | RelaySkipReason;
+
+// How often open epochs are checked for sealing when there is no ingestion poll interval
+const BATCH_SEAL_INTERVAL = 5000;
+
+// Every event the relayer acts on, for use as `topics: [RELAYED_TOPICS]`
+const RELAYED_TOPICS = [...LOCK_EVENT_TOPICS, TRANSACTION_MIRRORED_TOPIC];
+
+/**
+ * Watches lock events on every configured chain and submits the matching
+ * unlock on the lock's target chain. Each lock is unlocked at most once:
+ * local history and the target bridge are checked before every submission.
+ * Mirrored messages are delivered to the chain named in their payload.
+ * Failures retrying cannot fix go to the dead-letter queue. With a batcher,
+ * locks are committed per epoch as a Merkle root instead of unlocked one by one.
+ */
+export class RelayerService extends EventEmitter {
+    private readonly networkManager: Pick<NetworkManager, 'getProvider'>;
+    private readonly services: Map<number, BridgeService>;
+    private readonly monitoringService: MonitoringService;
+    private readonly queues: Map<number, Promise<unknown>>;
+    private readonly ingestion?: RelayerIngestionOptions;
+    private readonly history: RelayHistory;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly deliveries: MessageDeliveryStore;
+    private readonly deadLetters: DeadLetterQueue;
+    private readonly batcher?: LockBatcher;
+    // Epochs with a commit queued or in flight
+    private readonly committing: Set<string>;
+    private subscriptions: Subscription[];
+    private ingesters: EventIngester[];
+    private commitTimer?: NodeJS.Timeout;
+
+    constructor(
+        networkManager: Pick<NetworkManager, 'getProvider'>,
+        services: Map<number, BridgeService>,
+        monitoringService: MonitoringService,
+        ingestion?: RelayerIngestionOptions,
+        history: RelayHistory = new RelayHistory(),
+        retryPolicy: RetryPolicy = new RetryPolicy(),
+        deliveries: MessageDeliveryStore = new MessageDeliveryStore(),
+        deadLetters: DeadLetterQueue = new DeadLetterQueue(),
+        batcher?: LockBatcher
+    ) {
+        super();
+        this.networkManager = networkManager;
+        this.services = services;
+        this.monitoringService = monitoringService;
+        this.ingestion = ingestion;
+        this.history = history;
+        this.retryPolicy = retryPolicy;
+        this.deliveries = deliveries;
+        this.deadLetters = deadLetters;
+        this.batcher = batcher;
+        this.queues = new Map();
+        this.committing = new Set();
+        this.subscriptions = [];
+        this.ingesters = [];
+
+        // Also picks up epochs whose earlier commit failed
+        this.batcher?.on('sealed', () => this.commitSealedEpochs());
+        this.batcher?.on('error', error => this.emit('error', error));
+    }
+
+    public start(): void {
+        if (this.subscriptions.length > 0 || this.ingesters.length > 0) return;
+
+        if (this.batcher) {
+            const interval = this.ingestion?.pollInterval ?? BATCH_SEAL_INTERVAL;
+            // Roots sealed before a restart, or whose commit failed, still have to reach their target chain
+            this.commitSealedEpochs();
+            this.commitTimer = setInterval(() => this.commitSealedEpochs(), interval);
+            this.batcher.start(interval);
+        }
+
+        if (this.ingestion) {
+            this.startIngestion(this.ingestion);
+            return;
+        }
+
+        for (const [chainId, service] of this.services) {
+            const provider: ethers.providers.Provider = this.networkManager.getProvider(chainId);
+            const filter = {
+                address: service.getBridgeAddress(),
+                topics: [RELAYED_TOPICS]
+            };
+            const listener = (log: ethers.providers.Log) => {
+                this.handleLog(chainId, log).catch(error => this.emit('error', error));
+            };
+
+            provider.on(filter, listener);
+            this.subscriptions.push({ provider, filter, listener });
+        }
+    }
+
+    public stop(): void {
+        for (const { provider, filter, listener } of this.subscriptions) {
+            provider.off(filter, listener);
+        }
+        this.subscriptions = [];
+
+        for (const ingester of this.ingesters) {
+            ingester.stop();
+        }
+        this.ingesters = [];
+        this.batcher?.stop();
+        if (this.commitTimer) {
+            clearInterval(this.commitTimer);
+            this.commitTimer = undefined;
+        }
+    }
+
+    // Checkpointed polling: resumes from the stored cursor instead of only seeing new logs
+    private startIngestion({ chains, cursorStore, pollInterval, networks }: RelayerIngestionOptions): void {
+        for (const chainId of this.services.keys()) {
+            const config = chains.get(chainId);
+            if (!config) {
+                throw new Error(`No ingestion config for chain ${chainId}`);
+            }
+
+            const ingester = new EventIngester(
+                chainId,
+                this.networkManager.getProvider(chainId),
+                config,
+                cursorStore,
+                [RELAYED_TOPICS],
+                log => this.ingestLog(chainId, log),
+                networks?.get(chainId)?.requiredConfirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS,
+                this.retryPolicy
+            );
+            ingester.on('error', error => this.emit('error', error));
+            ingester.on('reorg', notice => this.handleReorg(notice));
+            ingester.start(pollInterval);
+            this.ingesters.push(ingester);
+        }
+    }
+
+    // The ingester checkpoints past a log once this resolves, so it throws unless the outcome is final
+    private async ingestLog(sourceChainId: number, log: ethers.providers.Log): Promise<void> {
+        const outcome = await this.handleLog(sourceChainId, log);
+        if (outcome !== 'failed' && outcome !== 'undeliverable') return;
+
+        const id = parseLockLog(log, sourceChainId)?.lockId ?? this.parseMessage(sourceChainId, log)?.messageId;
+        if (!id || !this.deadLetters.isParked(id)) {
+            throw new Error(`Relay of log ${log.transactionHash}:${log.logIndex} on chain ${sourceChainId} is unsettled; retrying from it on the next poll`);
+        }
+    }
+
+    // Resolves to undefined for logs the relayer does not act on
+    public async handleLog(sourceChainId: number, log: ethers.providers.Log): Promise<RelayOutcome | undefined> {
+        const lock = parseLockLog(log, sourceChainId);
+        if (lock) {
+            return this.batcher ? this.batch(lock, this.batcher) : this.enqueue(lock.targetChainId, () => this.relay(lock));
+        }
+
+        const message = this.parseMessage(sourceChainId, log);
+        if (message) {
+            return this.enqueue(message.payload?.targetChainId ?? 0, () => this.deliver(message));
+        }
+        return undefined;
+    }
+
+    /**
+     * The outcome handleLog would have right now, worked out from local history
+     * and on-chain reads only. Nothing is submitted or recorded.
+     */
+    public async assessLog(sourceChainId: number, log: ethers.providers.Log): Promise<RelayOutcome | undefined> {
+        const lock = parseLockLog(log, sourceChainId);
+        if (lock) {
+            if (this.history.hasReached(lock.lockId, 'confirmed')) return 'alreadyRelayed';
+            if (this.deadLetters.isParked(lock.lockId)) return 'deadLettered';
+            if (this.batcher) return 'batched';
+
+            const target = this.services.get(lock.targetChainId);
+            if (!target) return 'failed';
+            return await target.isLockProcessed(lock.lockId) ? 'alreadyProcessed' : 'relayed';
+        }
+
+        const message = this.parseMessage(sourceChainId, log);
+        if (message) {
+            if (this.deliveries.get(message.messageId)?.status === 'delivered') return 'alreadyDelivered';
+            if (this.deadLetters.isParked(message.messageId)) return 'deadLettered';
+            return message.payload && this.services.has(message.payload.targetChainId) ? 'relayed' : 'undeliverable';
+        }
+        return undefined;
+    }
+
+    public handleReorg(notice: ReorgNotice): void {
+        // lockId is the first indexed argument of every lock event
+        const lockIds = notice.logs
+            .filter(log => log.topics.length > 1 && LOCK_EVENT_TOPICS.includes(log.topics[0]))
+            .map(log => log.topics[1]);
+
+        // Batched locks leave any epoch whose root is not on its way yet; nothing was submitted for them
+        const unsubmitted = this.batcher
+            ? this.batcher.retract(lockIds, this.committing)
+            : lockIds.filter(lockId => !this.history.hasReached(lockId, 'submitted'));
+        unsubmitted.forEach(lockId => this.history.forget(lockId));
+
+        this.monitoringService.reportReorg(notice.chainId, notice.blockNumber, lockIds);
+        this.emit('reorg', { ...notice, lockIds });
+    }
+
+    private parseMessage(sourceChainId: number, log: ethers.providers.Log): MirroredMessage | undefined {
+        const message = parseMirroredLog(log, sourceChainId);
+        // Deliveries re-emit the event on the destination with the origin's chain ID; those are not new messages
+        return message && message.sourceChainId === sourceChainId ? message : undefined;
+    }
+
+    // Submissions are serialized per target chain so one relayer wallet never races itself
+    private enqueue(targetChainId: number, submit: () => Promise<RelayOutcome>): Promise<RelayOutcome> {
+        const previous = this.queues.get(targetChainId) || Promise.resolve();
+        const next = previous.then(submit);
+        this.queues.set(targetChainId, next.catch(() => undefined));
+        return next;
+    }
+
+    private batch(lock: LockEvent, batcher: LockBatcher): RelayOutcome {
+        if (this.history.hasReached(lock.lockId, 'confirmed')) {
+            this.emit('skipped', { lock, reason: 'alreadyRelayed' });
+            return 'alreadyRelayed';
+        }
+
+        this.history.advance(lock, 'seen');
+        const epoch = batcher.add(lock);
+        this.emit('batched', { lock, epochId: epoch.id });
+        return 'batched';
+    }
+
+    private commitSealedEpochs(): void {
+        this.batcher!.uncommitted().forEach(epoch => this.commitEpoch(epoch));
+    }
+
+    // Relays a sealed epoch's root to its target chain as a mirrored transaction
+    private commitEpoch(epoch: LockEpoch): void {
+        if (this.committing.has(epoch.id)) return;
+        this.committing.add(epoch.id);
+
+        this.enqueue(epoch.targetChainId, async () => {
+            try {
+                const target = this.services.get(epoch.targetChainId);
+                if (!target) {
+                    throw new BridgeError({
+                        type: BridgeErrorType.InvalidChainId,
+                        message: `Invalid chain ID: ${epoch.targetChainId}`,
+                        details: { chainId: epoch.targetChainId, epochId: epoch.id },
+                        chainId: epoch.sourceChainId
+                    });
+                }
+
+                const sourceBridge = this.services.get(epoch.sourceChainId)?.getBridgeAddress() ?? ethers.constants.AddressZero;
+                const envelope = getEpochEnvelope(epoch, sourceBridge, target.getBridgeAddress());
+                const txHash = await this.retryPolicy.execute(
+                    () => target.mirrorTransaction(epoch.sourceChainId, sourceBridge, getEnvelopeHash(envelope), encodeEnvelope(envelope)),
+                    `commit epoch ${epoch.id} to chain ${epoch.targetChainId}`
+                );
+
+                const committed = this.batcher!.markCommitted(epoch.id, txHash);
+                for (const lock of epoch.locks) {
+                    this.history.advance(lock, 'confirmed', { txHash });
+                }
+                this.emit('epochCommitted', committed);
+                return 'relayed';
+            } catch (error) {
+                // Still sealed: retried on the next seal or commit interval
+                this.emit('epochFailed', { epoch, error, failure: classifyError(error) });
+                return 'failed';
+            } finally {
+                this.committing.delete(epoch.id);
+            }
+        }).catch(error => this.emit('error', error));
+    }
+
+    public async relay(lock: LockEvent): Promise<RelayOutcome> {
+        // Re-delivered and replayed events must not unlock twice
+        if (this.history.hasReached(lock.lockId, 'confirmed')) {
+            this.emit('skipped', { lock, reason: 'alreadyRelayed' });
+            return 'alreadyRelayed';
+        }
+        if (this.deadLetters.isParked(lock.lockId)) {
+            this.emit('skipped', { lock, reason: 'deadLettered' });
+            return 'deadLettered';
+        }
+
+        this.history.advance(lock, 'seen');
+        this.monitoringService.trackTransaction(lock.lockId, lock.sourceChainId, lock.targetChainId, getTrackedMessage(lockEnvelope(lock)));
+
+        const attempts: DeadLetterAttempt[] = [];
+        try {
+            const target = this.services.get(lock.targetChainId);
+            if (!target) {
+                throw new BridgeError({
+                    type: BridgeErrorType.InvalidChainId,
+                    message: `Invalid chain ID: ${lock.targetChainId}`,
+                    details: { chainId: lock.targetChainId, lockId: lock.lockId },
+                    chainId: lock.sourceChainId
+                });
+            }
+
+            // Safe to retry as a whole: the processed check runs again before every resubmission
+            const result = await this.retryPolicy.execute(
+                this.recordAttempts(() => this.unlockOnce(target, lock), attempts),
+                `unlock ${lock.lockId} on chain ${lock.targetChainId}`
+            );
+
+            this.history.advance(lock, 'confirmed', { txHash: result.txHash, alreadyProcessed: result.alreadyProcessed });
+            await this.monitoringService.confirmTransaction(lock.lockId, true);
+            this.deadLetters.remove(lock.lockId);
+            this.finalize(lock, result);
+
+            if (result.alreadyProcessed) {
+                this.emit('skipped', { lock, reason: 'alreadyProcessed' });
+                return 'alreadyProcessed';
+            }
+            this.emit('relayed', lock);
+            return 'relayed';
+        } catch (error) {
+            await this.monitoringService.confirmTransaction(lock.lockId, false);
+            const failure = classifyError(error);
+            this.emit('relayFailed', { lock, error, failure });
+            this.deadLetter({ kind: 'lock', lock }, error, failure, attempts);
+            return 'failed';
+        }
+    }
+
+    public async deliver(message: MirroredMessage): Promise<RelayOutcome> {
+        if (this.deliveries.get(message.messageId)?.status === 'delivered') {
+            this.emit('skipped', { message, reason: 'alreadyDelivered' });
+            return 'alreadyDelivered';
+        }
+        if (this.deadLetters.isParked(message.messageId)) {
+            this.emit('skipped', { message, reason: 'deadLettered' });
+            return 'deadLettered';
+        }
+
+        const { payload } = message;
+        const target = payload && this.services.get(payload.targetChainId);
+        if (!payload || !target) {
+            const error = new BridgeError({
+                type: payload ? BridgeErrorType.InvalidChainId : BridgeErrorType.InvalidData,
+                message: payload
+                    ? `Invalid chain ID: ${payload.targetChainId}`
+                    : `Undecodable payload in message ${message.messageId}`,
+                details: { messageId: message.messageId, chainId: payload?.targetChainId },
+                chainId: message.sourceChainId
+            });
+            this.deliveries.record({
+                messageId: message.messageId,
+                sourceChainId: message.sourceChainId,
+                targetChainId: payload?.targetChainId,
+                target: payload?.target,
+                status: 'undeliverable',
+                error: error.message
+            });
+            const failure = classifyError(error);
+            this.emit('deliveryFailed', { message, error, failure });
+            this.deadLetter({ kind: 'message', message }, error, failure, []);
+            return 'undeliverable';
+        }
+
+        this.monitoringService.trackTransaction(message.messageId, message.sourceChainId, payload.targetChainId, message.envelope && getTrackedMessage(message.envelope));
+
+        const attempts: DeadLetterAttempt[] = [];
+        try {
+            const txHash = await this.retryPolicy.execute(
+                this.recordAttempts(
+                    () => target.mirrorTransaction(
+                        message.sourceChainId,
+                        message.sourceAddress,
+                        message.transactionHash,
+                        message.data,
+                        message.messageId
+                    ),
+                    attempts
+                ),
+                `deliver ${message.messageId} to chain ${payload.targetChainId}`
+            );
+
+            this.deliveries.record({
+                messageId: message.messageId,
+                sourceChainId: message.sourceChainId,
+                targetChainId: payload.targetChainId,
+                target: payload.target,
+                status: 'delivered',
+                txHash
+            });
+            await this.monitoringService.confirmTransaction(message.messageId, true);
+            this.deadLetters.remove(message.messageId);
+            this.emit('delivered', { message, txHash });
+            return 'relayed';
+        } catch (error) {
+            this.deliveries.record({
+                messageId: message.messageId,
+                sourceChainId: message.sourceChainId,
+                targetChainId: payload.targetChainId,
+                target: payload.target,
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error)
+            });
+            await this.monitoringService.confirmTransaction(message.messageId, false);
+            const failure = classifyError(error);
+            this.emit('deliveryFailed', { message, error, failure });
+            this.deadLetter({ kind: 'message', message }, error, failure, attempts);
+            return 'failed';
+        }
+    }
+
+    /**
+     * Relays a dead-lettered lock or message again. The entry leaves the queue
+     * once that succeeds; another failure parks it again with the new attempts
+     * added to its history.
+     */
+    public async requeue(id: string): Promise<RelayOutcome> {
+        const entry = this.deadLetters.markRequeued(id);
+        if (!entry) {
+            throw new Error(`No dead-lettered relay with ID ${id}`);
+        }
+
+        return entry.kind === 'lock'
+            ? this.enqueue(entry.lock.targetChainId, () => this.relay(entry.lock))
+            : this.enqueue(entry.message.payload?.targetChainId ?? 0, () => this.deliver(entry.message));
+    }
+
+    // Only reached once retrying has given up, so transient failures are parked too rather than dropped
+    private deadLetter(event: DeadLetterEvent, error: unknown, failure: FailureClass, attempts: DeadLetterAttempt[]): void {
+        const { entry, isNew } = this.deadLetters.add(event, error, failure, attempts.length > 0 ? attempts : [describeAttempt(error)]);
+        if (isNew) {
+            this.monitoringService.reportDeadLetter(entry);
+        }
+        this.emit('deadLettered', entry);
+    }
+
+    // Wraps a retried operation so every failed try ends up in the attempt history
+    private recordAttempts<T>(operation: () => Promise<T>, attempts: DeadLetterAttempt[]): () => Promise<T> {
+        return () => operation().catch(error => {
+            attempts.push(describeAttempt(error));
+            throw error;
+        });
+    }
+
+    private async unlockOnce(target: BridgeService, lock: LockEvent): Promise<UnlockResult> {
+        if (await target.isLockProcessed(lock.lockId)) {
+            return { lockId: lock.lockId, alreadyProcessed: true };
+        }
+
+        this.history.advance(lock, 'submitted');
+        return this.submitUnlock(target, lock);
+    }
+
+    // Waits for the target chain's confirmations off the queue so later unlocks are not held up
+    private finalize(lock: LockEvent, result: UnlockResult): void {
+        const confirmations = this.ingestion?.networks?.get(lock.targetChainId)?.requiredConfirmations ?? 0;
+        if (!result.txHash || confirmations <= 1) {
+            this.history.advance(lock, 'finalized');
+            this.emit('finalized', lock);
+            return;
+        }
+
+        const provider: ethers.providers.Provider = this.networkManager.getProvider(lock.targetChainId);
+        provider.waitForTransaction(result.txHash, confirmations)
+            .then(() => {
+                this.history.advance(lock, 'finalized');
+                this.emit('finalized', lock);
+            })
+            .catch(error => this.emit('error', error));
+    }
+
+    private submitUnlock(target: BridgeService, lock: LockEvent): Promise<UnlockResult> {
+        switch (lock.kind) {
+            case 'ERC20':
+                return target.unlockTokens(lock.asset, lock.amounts[0], lock.recipient, lock.lockId);
+            case 'ERC721':
+                return target.unlockNFT(lock.asset, lock.tokenIds[0], lock.recipient, lock.lockId);
+            case 'ERC1155':
+                return target.unlockNFT1155(lock.asset, lock.tokenIds[0], lock.amounts[0], lock.recipient, lock.lockId);
+            case 'ERC1155_BATCH':
+                return target.unlockNFT1155Batch(lock.asset, lock.tokenIds, lock.amounts, lock.recipient, lock.lockId);
+        }
+    }
+}
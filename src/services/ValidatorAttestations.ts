@@ -0,0 +1,327 @@
+import { ethers } from "ethers";
+import { EventEmitter } from "events";
+import fs from "fs";
+import path from "path";
+import type { TypedDataSigner } from "@ethersproject/abstract-signer";
+import type { NetworkManager } from "../../scripts/deploy/networks";
+import { ChainConfig, NetworkConfig, ValidatorConfig } from "../admin-panel/types/config";
+import { BridgeError, BridgeErrorType } from "../utils/BridgeErrors";
+import { CursorStore } from "../utils/CursorStore";
+import { JsonFileStore } from "../utils/JsonFileStore";
+import { DEFAULT_REQUIRED_CONFIRMATIONS, EventIngester, ReorgNotice } from "./EventIngester";
+import { LockEvent, LOCK_EVENT_TOPICS, parseLockLog } from "./LockEvents";
+import { encodeEnvelope, getEnvelopeHash, lockEnvelope } from "./MessageEnvelope";
+
+export interface ValidatorSet {
+    validators: string[];
+    threshold: number;
+}
+
+export interface LockAttestation {
+    validator: string;
+    // getEnvelopeHash(lockEnvelope(lock)): the lock's one canonical identifier
+    envelopeHash: string;
+    signature: string;
+    lock: LockEvent;
+    signedAt: string;
+}
+
+// What the aggregator hands to whoever submits the claim
+export interface ThresholdClaim {
+    lock: LockEvent;
+    envelopeHash: string;
+    // Sorted by address, matching `signatures`
+    signers: string[];
+    signatures: string[];
+}
+
+const ATTESTATION_DOMAIN: ethers.TypedDataDomain = {
+    name: "BridgeAttestation",
+    version: "1"
+};
+
+// Claims are checked by the bridge on the lock's target chain, so that bridge is the verifying contract
+export function getAttestationDomain(targetChainId: number, targetBridge: string): ethers.TypedDataDomain {
+    return { ...ATTESTATION_DOMAIN, chainId: targetChainId, verifyingContract: targetBridge };
+}
+
+// Validators sign the lock's envelope hash, which already covers both chain IDs and every lock field
+export const ATTESTATION_TYPES: Record<string, ethers.TypedDataField[]> = {
+    Attestation: [
+        { name: "envelopeHash", type: "bytes32" }
+    ]
+};
+
+const THRESHOLD_CLAIM_TYPES = ["bytes", "bytes[]"];
+
+function getLockEnvelopeHash(lock: LockEvent): string {
+    return getEnvelopeHash(lockEnvelope(lock));
+}
+
+export function recoverAttestationSigner(lock: LockEvent, targetBridge: string, signature: string): string {
+    return ethers.utils.verifyTypedData(
+        getAttestationDomain(lock.targetChainId, targetBridge), ATTESTATION_TYPES, { envelopeHash: getLockEnvelopeHash(lock) }, signature
+    );
+}
+
+/**
+ * The validators and their M-of-N threshold come from their own config entry,
+ * independent of the governance admins and requiredSignatures.
+ */
+export function validatorSetFromConfig(config: ValidatorConfig | undefined): ValidatorSet {
+    const validators = Array.from(new Set(
+        (config?.addresses ?? []).map(address => ethers.utils.getAddress(address))
+    ));
+    const threshold = config?.threshold;
+
+    if (validators.length === 0) {
+        throw new Error("No validators configured: the config needs validators.addresses");
+    }
+    if (threshold === undefined || !Number.isInteger(threshold) || threshold < 1 || threshold > validators.length) {
+        throw new Error(`Invalid validator threshold ${threshold} for ${validators.length} validator(s)`);
+    }
+    return { validators, threshold };
+}
+
+// The lock's encoded envelope and the signatures over its hash
+export function encodeThresholdClaim(claim: ThresholdClaim): string {
+    return ethers.utils.defaultAbiCoder.encode(THRESHOLD_CLAIM_TYPES, [encodeEnvelope(lockEnvelope(claim.lock)), claim.signatures]);
+}
+
+/**
+ * Published attestations, one file per validator in a shared directory so
+ * validator processes never write the same file. Without a directory the
+ * store only lives for the current process.
+ */
+export class AttestationStore {
+    private readonly directory?: string;
+    private readonly memory: Record<string, Record<string, LockAttestation>> = {};
+
+    constructor(directory?: string) {
+        this.directory = directory;
+    }
+
+    publish(attestation: LockAttestation): void {
+        this.update(attestation.validator, entries => { entries[attestation.lock.lockId] = attestation; });
+    }
+
+    retract(validator: string, lockId: string): void {
+        this.update(validator, entries => { delete entries[lockId]; });
+    }
+
+    forLock(lockId: string): LockAttestation[] {
+        return this.readAll()
+            .map(entries => entries[lockId])
+            .filter((attestation): attestation is LockAttestation => !!attestation);
+    }
+
+    lockIds(): string[] {
+        return Array.from(new Set(this.readAll().flatMap(entries => Object.keys(entries))));
+    }
+
+    private fileFor(validator: string): JsonFileStore<Record<string, LockAttestation>> {
+        return new JsonFileStore(path.join(this.directory!, `${ethers.utils.getAddress(validator)}.json`), () => ({}));
+    }
+
+    private update(validator: string, mutate: (entries: Record<string, LockAttestation>) => void): void {
+        if (this.directory) {
+            this.fileFor(validator).update(mutate);
+        } else {
+            mutate(this.memory[validator] = this.memory[validator] || {});
+        }
+    }
+
+    private readAll(): Record<string, LockAttestation>[] {
+        if (!this.directory) {
+            return Object.values(this.memory);
+        }
+        if (!fs.existsSync(this.directory)) {
+            return [];
+        }
+        return fs.readdirSync(this.directory)
+            .filter(name => name.endsWith(".json"))
+            .map(name => new JsonFileStore<Record<string, LockAttestation>>(path.join(this.directory!, name), () => ({})).read());
+    }
+}
+
+/**
+ * One validator: watches lock events on every configured chain and publishes
+ * its signature over each lock's envelope hash. Attestations for locks that a reorg
+ * removed are retracted.
+ */
+export class ValidatorService extends EventEmitter {
+    private readonly signer: ethers.Signer & TypedDataSigner;
+    private readonly networkManager: Pick<NetworkManager, 'getProvider'>;
+    private readonly chains: Map<number, ChainConfig>;
+    private readonly cursorStore: CursorStore;
+    private readonly store: AttestationStore;
+    private readonly networks?: Map<number, Pick<NetworkConfig, 'requiredConfirmations'>>;
+    private ingesters: EventIngester[];
+
+    constructor(
+        signer: ethers.Signer & TypedDataSigner,
+        networkManager: Pick<NetworkManager, 'getProvider'>,
+        chains: Map<number, ChainConfig>,
+        cursorStore: CursorStore,
+        store: AttestationStore = new AttestationStore(),
+        networks?: Map<number, Pick<NetworkConfig, 'requiredConfirmations'>>
+    ) {
+        super();
+        this.signer = signer;
+        this.networkManager = networkManager;
+        this.chains = chains;
+        this.cursorStore = cursorStore;
+        this.store = store;
+        this.networks = networks;
+        this.ingesters = [];
+    }
+
+    public start(pollInterval: number): void {
+        if (this.ingesters.length > 0) return;
+
+        for (const [chainId, config] of this.chains) {
+            const ingester = new EventIngester(
+                chainId,
+                this.networkManager.getProvider(chainId),
+                config,
+                this.cursorStore,
+                [LOCK_EVENT_TOPICS],
+                async log => { await this.handleLog(chainId, log); },
+                this.networks?.get(chainId)?.requiredConfirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS
+            );
+            ingester.on('error', error => this.emit('error', error));
+            ingester.on('reorg', notice => this.handleReorg(notice).catch(error => this.emit('error', error)));
+            ingester.start(pollInterval);
+            this.ingesters.push(ingester);
+        }
+    }
+
+    public stop(): void {
+        for (const ingester of this.ingesters) {
+            ingester.stop();
+        }
+        this.ingesters = [];
+    }
+
+    public async handleLog(sourceChainId: number, log: ethers.providers.Log): Promise<LockAttestation | undefined> {
+        const lock = parseLockLog(log, sourceChainId);
+        // No configured bridge could verify a claim for any other target chain
+        return lock && this.chains.has(lock.targetChainId) ? this.attest(lock) : undefined;
+    }
+
+    public async attest(lock: LockEvent): Promise<LockAttestation> {
+        const target = this.chains.get(lock.targetChainId);
+        if (!target) {
+            throw new BridgeError({
+                type: BridgeErrorType.InvalidDestination,
+                message: `Cannot attest lock ${lock.lockId}: target chain ${lock.targetChainId} is not configured`,
+                details: { lockId: lock.lockId, targetChainId: lock.targetChainId }
+            });
+        }
+
+        const envelopeHash = getLockEnvelopeHash(lock);
+        const attestation: LockAttestation = {
+            validator: await this.signer.getAddress(),
+            envelopeHash,
+            signature: await this.signer._signTypedData(
+                getAttestationDomain(lock.targetChainId, target.bridgeAddress),
+                ATTESTATION_TYPES,
+                { envelopeHash }
+            ),
+            lock,
+            signedAt: new Date().toISOString()
+        };
+
+        this.store.publish(attestation);
+        this.emit('attested', attestation);
+        return attestation;
+    }
+
+    public async handleReorg(notice: ReorgNotice): Promise<void> {
+        const validator = await this.signer.getAddress();
+        // lockId is the first indexed argument of every lock event
+        const lockIds = notice.logs
+            .filter(log => log.topics.length > 1 && LOCK_EVENT_TOPICS.includes(log.topics[0]))
+            .map(log => log.topics[1]);
+
+        for (const lockId of lockIds) {
+            this.store.retract(validator, lockId);
+        }
+        this.emit('retracted', { ...notice, lockIds });
+    }
+}
+
+/**
+ * Assembles threshold-signed claims from the shared store. Only signatures
+ * that recover to a member of the validator set count, and all of them must
+ * be over the same envelope hash.
+ */
+export class AttestationAggregator {
+    private readonly validatorSet: ValidatorSet;
+    private readonly store: AttestationStore;
+    private readonly chains: Map<number, Pick<ChainConfig, 'bridgeAddress'>>;
+
+    constructor(validatorSet: ValidatorSet, store: AttestationStore, chains: Map<number, Pick<ChainConfig, 'bridgeAddress'>>) {
+        this.validatorSet = validatorSet;
+        this.store = store;
+        this.chains = chains;
+    }
+
+    public aggregate(lockId: string): ThresholdClaim {
+        const members = new Set(this.validatorSet.validators.map(address => ethers.utils.getAddress(address)));
+        const byEnvelope = new Map<string, { lock: LockEvent; signatures: Map<string, string> }>();
+
+        for (const attestation of this.store.forLock(lockId)) {
+            const target = this.chains.get(attestation.lock.targetChainId);
+            if (!target) continue;
+
+            let signer: string;
+            try {
+                signer = recoverAttestationSigner(attestation.lock, target.bridgeAddress, attestation.signature);
+            } catch {
+                continue;
+            }
+            if (signer !== ethers.utils.getAddress(attestation.validator) || !members.has(signer)) continue;
+
+            // Validators that disagree on the lock's contents sign different envelope hashes
+            const envelopeHash = getLockEnvelopeHash(attestation.lock);
+            const group = byEnvelope.get(envelopeHash) || { lock: attestation.lock, signatures: new Map() };
+            group.signatures.set(signer, attestation.signature);
+            byEnvelope.set(envelopeHash, group);
+        }
+
+        const [envelopeHash, best] = Array.from(byEnvelope.entries())
+            .sort(([, a], [, b]) => b.signatures.size - a.signatures.size)[0] ?? [];
+        const current = best?.signatures.size ?? 0;
+
+        if (!envelopeHash || !best || current < this.validatorSet.threshold) {
+            throw new BridgeError({
+                type: BridgeErrorType.InsufficientSignatures,
+                message: `Insufficient signatures: ${current}/${this.validatorSet.threshold}`,
+                details: { current, required: this.validatorSet.threshold, lockId }
+            });
+        }
+
+        const signers = Array.from(best.signatures.keys())
+            .sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+        return {
+            lock: best.lock,
+            envelopeHash,
+            signers,
+            signatures: signers.map(signer => best.signatures.get(signer)!)
+        };
+    }
+
+    // Every lock that has reached the threshold
+    public ready(): ThresholdClaim[] {
+        const claims: ThresholdClaim[] = [];
+        for (const lockId of this.store.lockIds()) {
+            try {
+                claims.push(this.aggregate(lockId));
+            } catch (error) {
+                if (!(error instanceof BridgeError) || error.type !== BridgeErrorType.InsufficientSignatures) throw error;
+            }
+        }
+        return claims;
+    }
+}
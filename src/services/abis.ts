@@ -0,0 +1,112 @@
+// Minimal human-readable ABIs for the token standards the bridge moves.
+// Only the functions and events BridgeService touches are listed.
+
+export const ERC20_ABI = [
+    "function balanceOf(address account) view returns (uint256)",
+    "function allowance(address owner, address spender) view returns (uint256)",
+    "function approve(address spender, uint256 amount) returns (bool)"
+];
+
+export const ERC721_ABI = [
+    "function ownerOf(uint256 tokenId) view returns (address)",
+    "function getApproved(uint256 tokenId) view returns (address)",
+    "function isApprovedForAll(address owner, address operator) view returns (bool)",
+    "function approve(address to, uint256 tokenId)",
+    "function setApprovalForAll(address operator, bool approved)"
+];
+
+export const ERC1155_ABI = [
+    "function balanceOf(address account, uint256 id) view returns (uint256)",
+    "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+    "function isApprovedForAll(address account, address operator) view returns (bool)",
+    "function setApprovalForAll(address operator, bool approved)"
+];
+
+export const ERC4626_ABI = [
+    ...ERC20_ABI,
+    "function asset() view returns (address)",
+    "function previewDeposit(uint256 assets) view returns (uint256)",
+    "function convertToAssets(uint256 shares) view returns (uint256)",
+    "function deposit(uint256 assets, address receiver) returns (uint256)",
+    "event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)"
+];
+
+export const ERC777_ABI = [
+    "function balanceOf(address holder) view returns (uint256)",
+    "function isOperatorFor(address operator, address holder) view returns (bool)",
+    "function authorizeOperator(address operator)"
+];
+
+// IBridgeGovernance multisig surface
+export const GOVERNANCE_ABI = [
+    "function assignRole(address account, uint8 role)",
+    "function revokeRole(address account)",
+    "function addSigner(address signer)",
+    "function removeSigner(address signer)",
+    "function updateThreshold(uint256 newThreshold)",
+    "function proposeTransaction(address target, uint256 value, bytes data) returns (bytes32)",
+    "function signTransaction(bytes32 txHash)",
+    "function executeTransaction(bytes32 txHash)",
+    "function cancelTransaction(bytes32 txHash)",
+    "function hasRole(address account, uint8 role) view returns (bool)",
+    "function getThreshold() view returns (uint256)",
+    "function getSignatureCount(bytes32 txHash) view returns (uint256)",
+    "event TransactionProposed(bytes32 indexed txHash, address indexed proposer)",
+    "event TransactionExecuted(bytes32 indexed txHash)",
+    "event TransactionCancelled(bytes32 indexed txHash)"
+];
+
+export const BRIDGE_MIRROR_ABI = [
+    "function mirrorTransaction(uint256 sourceChainId, address sourceAddress, bytes32 transactionHash, bytes data)",
+    "function toggleFeature(string feature, bool enabled)",
+    "function isFeatureEnabled(string feature) view returns (bool)",
+    "function updateSupportedChain(uint256 chainId, bool supported)",
+    "function isChainSupported(uint256 chainId) view returns (bool)",
+    "function bridgeAsset(address asset, uint256 amount, address recipient)",
+    "function claimAsset(bytes proof)",
+    "function getAssetInfo(address asset) view returns (tuple(uint128 totalLocked, uint128 dailyLimit, uint8 assetType, uint8 status, uint16 bridgeFee))",
+    "error ExcessiveAmount(uint256 amount, uint256 limit)",
+    "event TransactionMirrored(uint256 indexed sourceChainId, address indexed sourceAddress, bytes32 indexed transactionHash, bytes data)",
+    "event AssetBridged(address indexed asset, address indexed sender, address indexed recipient, uint256 amount)",
+    "event AssetClaimed(address indexed asset, address indexed recipient, uint256 amount, bytes32 proofHash)"
+];
+
+export const GOVERNANCE_FACET_ABI = [
+    "function setVotingPower(address account, uint256 newVotingPower)",
+    "function getVotingPower(address account) view returns (uint256)",
+    "function setVotingDelay(uint256 newVotingDelay)",
+    "function votingDelay() view returns (uint256)",
+    "function setVotingPeriod(uint256 newVotingPeriod)",
+    "function votingPeriod() view returns (uint256)",
+    "function setProposalThreshold(uint256 newProposalThreshold)",
+    "function proposalThreshold() view returns (uint256)",
+    "function setQuorumVotes(uint256 newQuorumVotes)",
+    "function quorumVotes() view returns (uint256)",
+    "function setTimelockDelay(uint256 newTimelockDelay)",
+    "function timelockDelay() view returns (uint256)",
+    "function cancel(uint256 proposalId)"
+];
+
+export const DIAMOND_CUT_ABI = [
+    "function diamondCut((address facetAddress, uint8 action, bytes4[] functionSelectors)[] _diamondCut, address _init, bytes _calldata)"
+];
+
+// Lock/unlock surface of the bridge. Every lock event carries the lockId the
+// target chain unlock is keyed on.
+export const BRIDGE_LOCK_ABI = [
+    "function lockTokens(address token, uint256 amount, uint256 targetChainId, address recipient)",
+    "function unlockTokens(address token, uint256 amount, address recipient, bytes32 lockId)",
+    "function lockNFT(address collection, uint256 tokenId, uint256 targetChainId, address recipient)",
+    "function unlockNFT(address collection, uint256 tokenId, address recipient, bytes32 lockId)",
+    "function lockNFT1155(address collection, uint256 tokenId, uint256 amount, uint256 targetChainId, address recipient)",
+    "function unlockNFT1155(address collection, uint256 tokenId, uint256 amount, address recipient, bytes32 lockId)",
+    "function lockNFT1155Batch(address collection, uint256[] tokenIds, uint256[] amounts, uint256 targetChainId, address recipient)",
+    "function unlockNFT1155Batch(address collection, uint256[] tokenIds, uint256[] amounts, address recipient, bytes32 lockId)",
+    "function isLockProcessed(bytes32 lockId) view returns (bool)",
+    "error LockAlreadyProcessed(bytes32 lockId)",
+    "error TransactionAlreadyProcessed(bytes32 txHash)",
+    "event TokensLocked(bytes32 indexed lockId, address indexed token, address indexed sender, uint256 amount, uint256 targetChainId, address recipient)",
+    "event NFTLocked(bytes32 indexed lockId, address indexed collection, address indexed sender, uint256 tokenId, uint256 targetChainId, address recipient)",
+    "event NFT1155Locked(bytes32 indexed lockId, address indexed collection, address indexed sender, uint256 tokenId, uint256 amount, uint256 targetChainId, address recipient)",
+    "event NFT1155BatchLocked(bytes32 indexed lockId, address indexed collection, address indexed sender, uint256[] tokenIds, uint256[] amounts, uint256 targetChainId, address recipient)"
+];
@@ -1,3 +1,5 @@
+import { ethers } from 'ethers';
+
 export enum BridgeErrorType {
     // Governance Errors
     Unauthorized = "Unauthorized",
@@ -25,6 +27,7 @@ export enum BridgeErrorType {
     InvalidDestination = "InvalidDestination",
     InvalidSourceChain = "InvalidSourceChain",
     TransactionAlreadyProcessed = "TransactionAlreadyProcessed",
+    ProofAlreadyUsed = "ProofAlreadyUsed",
     InvalidLockId = "InvalidLockId",
     LockAlreadyProcessed = "LockAlreadyProcessed",
     CrossChainRequestFailed = "CrossChainRequestFailed",
@@ -43,6 +46,8 @@ export enum BridgeErrorType {
     OperationNotSupported = "OperationNotSupported",
     MaxTokensExceeded = "MaxTokensExceeded",
     MaxTransferAmountExceeded = "MaxTransferAmountExceeded",
+    ExcessiveAmount = "ExcessiveAmount",
+    FeeCapReached = "FeeCapReached",
 
     // System/Technical Errors
     ZeroAddress = "ZeroAddress",
@@ -95,6 +100,48 @@ export class BridgeError extends Error {
         });
     }
 
+    public static fromContractError(
+        error: any,
+        contractInterface: ethers.utils.Interface
+    ): BridgeError | undefined {
+        if (error instanceof BridgeError) return error;
+
+        // ethers decodes custom errors itself when the ABI is known to the contract
+        let decoded: { name: string; signature: string; args: any } | undefined;
+        if (error?.errorName && error?.errorSignature) {
+            decoded = { name: error.errorName, signature: error.errorSignature, args: error.errorArgs };
+        } else {
+            const data = this.extractRevertData(error);
+            if (data) {
+                try {
+                    decoded = contractInterface.parseError(data);
+                } catch {
+                    decoded = undefined;
+                }
+            }
+        }
+
+        if (!decoded || !Object.values(BridgeErrorType).includes(decoded.name as BridgeErrorType)) {
+            return undefined;
+        }
+        return this.fromSolidityError(decoded);
+    }
+
+    public static extractRevertData(error: any): string | undefined {
+        // Providers nest the JSON-RPC error a varying number of levels deep
+        let current = error;
+        for (let depth = 0; current && depth < 5; depth++) {
+            if (typeof current.data === 'string' && ethers.utils.isHexString(current.data) && current.data.length >= 10) {
+                return current.data;
+            }
+            if (typeof current.data?.data === 'string') {
+                return current.data.data;
+            }
+            current = current.error;
+        }
+        return undefined;
+    }
+
     private static formatErrorMessage(type: BridgeErrorType, args: any): string {
         switch (type) {
             case BridgeErrorType.Unauthorized:
@@ -109,6 +156,18 @@ export class BridgeError extends Error {
                 return `Invalid chain ID: ${args.chainId}`;
             case BridgeErrorType.CrossChainRequestFailed:
                 return `Cross-chain request failed on chain ${args.targetChainId} for tx ${args.txHash}`;
+            case BridgeErrorType.LockAlreadyProcessed:
+                return `Lock already processed: ${args.lockId}`;
+            case BridgeErrorType.TransactionAlreadyProcessed:
+                return `Transaction already processed: ${args.txHash}`;
+            case BridgeErrorType.ProofAlreadyUsed:
+                return `Proof already used: ${args.proofHash}`;
+            case BridgeErrorType.ExcessiveAmount:
+                return `Amount ${args.amount} exceeds the daily limit of ${args.limit}`;
+            case BridgeErrorType.VaultNotRegistered:
+                return `Vault not registered: ${args.vault}`;
+            case BridgeErrorType.InsufficientShares:
+                return `Insufficient shares: ${args.available}/${args.required}`;
             // Add more cases as needed
             default:
                 return `Bridge error: ${type}`;
@@ -0,0 +1,51 @@
+import { JsonFileStore } from './JsonFileStore';
+
+export interface RecordedLog {
+    transactionHash: string;
+    logIndex: number;
+    topics: string[];
+}
+
+export interface RecordedBlock {
+    blockNumber: number;
+    blockHash: string;
+    logs: RecordedLog[];
+}
+
+export interface BlockCursor {
+    blockNumber: number;
+    // Last processed log in blockNumber, or null once the whole block is done
+    logIndex: number | null;
+    blockHash?: string;
+    // Recently processed blocks, kept to work out what a reorg orphaned
+    recentBlocks?: RecordedBlock[];
+    updatedAt: string;
+}
+
+/**
+ * Per-chain ingestion checkpoints persisted to disk so a restarted process
+ * resumes from the last processed log.
+ */
+export class CursorStore {
+    private readonly store: JsonFileStore<Record<string, BlockCursor>>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore(filePath, () => ({}));
+    }
+
+    public get(chainId: number): BlockCursor | undefined {
+        return this.store.read()[chainId];
+    }
+
+    public set(chainId: number, cursor: Omit<BlockCursor, 'updatedAt'>): void {
+        this.store.update(cursors => {
+            cursors[chainId] = { ...cursor, updatedAt: new Date().toISOString() };
+        });
+    }
+
+    public reset(chainId: number): void {
+        this.store.update(cursors => {
+            delete cursors[chainId];
+        });
+    }
+}
@@ -0,0 +1,183 @@
+import { ethers } from 'ethers';
+import { JsonFileStore } from './JsonFileStore';
+import { BridgeError } from './BridgeErrors';
+import { FailureClass } from './RetryPolicy';
+import { BRIDGE_LOCK_ABI, BRIDGE_MIRROR_ABI } from '../services/abis';
+import type { LockEvent } from '../services/LockEvents';
+import type { MirroredMessage } from '../services/MirroredMessages';
+
+// Revert decoded from the failed submission
+export interface DecodedRevert {
+    name: string;
+    args?: Record<string, any>;
+}
+
+export interface DeadLetterAttempt {
+    attemptedAt: string;
+    message: string;
+    errorType?: string;
+}
+
+// requeued: handed back to the relayer, removed once it succeeds
+export type DeadLetterStatus = 'parked' | 'requeued';
+
+export type DeadLetterEvent =
+    | { kind: 'lock'; lock: LockEvent }
+    | { kind: 'message'; message: MirroredMessage };
+
+export type DeadLetter = DeadLetterEvent & {
+    // lockId for locks, messageId for mirrored messages
+    id: string;
+    sourceChainId: number;
+    targetChainId?: number;
+    status: DeadLetterStatus;
+    failure: FailureClass;
+    errorType?: string;
+    revert?: DecodedRevert;
+    // Every failed try, across retries and requeues
+    attempts: DeadLetterAttempt[];
+    createdAt: string;
+    updatedAt: string;
+};
+
+// Custom errors the relayer's bridges can revert with
+const BRIDGE_REVERTS = new ethers.utils.Interface(
+    [...BRIDGE_MIRROR_ABI, ...BRIDGE_LOCK_ABI].filter(fragment => fragment.startsWith('error '))
+);
+
+// Selector of require/revert reason strings: Error(string)
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+function hasErrorCode(error: unknown): error is { code: string } {
+    return typeof error === 'object' && error !== null && typeof (error as { code?: unknown }).code === 'string';
+}
+
+export function describeAttempt(error: unknown): DeadLetterAttempt {
+    return {
+        attemptedAt: new Date().toISOString(),
+        message: error instanceof Error ? error.message : String(error),
+        errorType: error instanceof BridgeError ? error.type : hasErrorCode(error) ? error.code : undefined
+    };
+}
+
+// Named revert arguments only, with BigNumbers as decimal strings so entries stay readable JSON
+function plainArgs(details?: Record<string, any>): Record<string, any> | undefined {
+    if (!details) return undefined;
+    return Object.fromEntries(
+        Object.keys(details)
+            .filter(key => isNaN(Number(key)))
+            .map(key => [key, ethers.BigNumber.isBigNumber(details[key]) ? details[key].toString() : details[key]])
+    );
+}
+
+// Reason strings and bridge custom errors by name; unknown custom errors keep their selector and raw data
+function decodeRevert(error: unknown): DecodedRevert | undefined {
+    if (error instanceof BridgeError) {
+        return { name: error.type, args: plainArgs(error.details) };
+    }
+
+    const data = BridgeError.extractRevertData(error);
+    if (!data || !ethers.utils.isHexString(data) || data.length < 10 || data.length % 2 !== 0) return undefined;
+
+    try {
+        if (data.startsWith(ERROR_STRING_SELECTOR)) {
+            const [reason] = ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4));
+            return { name: 'Error', args: { reason } };
+        }
+        const decoded = BRIDGE_REVERTS.parseError(data);
+        return { name: decoded.name, args: plainArgs(decoded.args) };
+    } catch {
+        return { name: ethers.utils.hexDataSlice(data, 0, 4), args: { data } };
+    }
+}
+
+/**
+ * Relays that failed in a way retrying cannot fix, or that were retried until
+ * the retry policy gave up. Entries stay until an operator requeues or
+ * discards them. Kept in memory unless a file path is
+ * given, like RelayHistory.
+ */
+export class DeadLetterQueue {
+    private readonly file?: JsonFileStore<Record<string, DeadLetter>>;
+    private readonly memory: Record<string, DeadLetter> = {};
+
+    constructor(filePath?: string) {
+        if (filePath) {
+            this.file = new JsonFileStore(filePath, () => ({}));
+        }
+    }
+
+    public get(id: string): DeadLetter | undefined {
+        return this.file ? this.file.read()[id] : this.memory[id];
+    }
+
+    public list(status?: DeadLetterStatus): DeadLetter[] {
+        return Object.values(this.file ? this.file.read() : this.memory)
+            .filter(entry => !status || entry.status === status)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    public isParked(id: string): boolean {
+        return this.get(id)?.status === 'parked';
+    }
+
+    /**
+     * Parks a failed relay. A lock or message that fails again after a requeue
+     * keeps its entry and gets the new attempts appended. `isNew` is false only
+     * when the entry was already parked.
+     */
+    public add(
+        event: DeadLetterEvent,
+        error: unknown,
+        failure: FailureClass,
+        attempts: DeadLetterAttempt[]
+    ): { entry: DeadLetter; isNew: boolean } {
+        const id = event.kind === 'lock' ? event.lock.lockId : event.message.messageId;
+        const existing = this.get(id);
+        const now = new Date().toISOString();
+
+        const entry: DeadLetter = {
+            ...event,
+            id,
+            sourceChainId: event.kind === 'lock' ? event.lock.sourceChainId : event.message.sourceChainId,
+            targetChainId: event.kind === 'lock' ? event.lock.targetChainId : event.message.payload?.targetChainId,
+            status: 'parked',
+            failure,
+            errorType: error instanceof BridgeError ? error.type : undefined,
+            revert: decodeRevert(error),
+            attempts: [...(existing?.attempts ?? []), ...attempts],
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+        };
+
+        this.write(records => { records[id] = entry; });
+        return { entry, isNew: existing?.status !== 'parked' };
+    }
+
+    // Returns the updated entry, undefined when there was none
+    public markRequeued(id: string): DeadLetter | undefined {
+        const existing = this.get(id);
+        if (!existing) return undefined;
+
+        const entry: DeadLetter = { ...existing, status: 'requeued', updatedAt: new Date().toISOString() };
+        this.write(records => { records[id] = entry; });
+        return entry;
+    }
+
+    // Returns the removed entry, undefined when there was none
+    public remove(id: string): DeadLetter | undefined {
+        const entry = this.get(id);
+        if (entry) {
+            this.write(records => { delete records[id]; });
+        }
+        return entry;
+    }
+
+    private write(mutate: (records: Record<string, DeadLetter>) => void): void {
+        if (this.file) {
+            this.file.update(mutate);
+        } else {
+            mutate(this.memory);
+        }
+    }
+}
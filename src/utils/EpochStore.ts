@@ -0,0 +1,131 @@
+import { JsonFileStore } from './JsonFileStore';
+import type { LockEvent } from '../services/LockEvents';
+
+// open: still taking locks; sealed: root fixed, not yet on the target; committed: root relayed;
+// retracted: sealed, then emptied by a reorg before its root was relayed
+export type EpochStatus = 'open' | 'sealed' | 'committed' | 'retracted';
+
+export interface LockEpoch {
+    // `${sourceChainId}-${targetChainId}-${number}`
+    id: string;
+    number: number;
+    sourceChainId: number;
+    targetChainId: number;
+    status: EpochStatus;
+    locks: LockEvent[];
+    root?: string;
+    openedAt: string;
+    sealedAt?: string;
+    // Target-chain transaction that carried the root
+    commitTxHash?: string;
+    committedAt?: string;
+}
+
+/**
+ * Lock epochs per (source, target) route. Kept in memory unless a file path is
+ * given, like RelayHistory. The file is read once and indexed by lock; every
+ * save writes it back, so finished epochs should be pruned.
+ */
+export class EpochStore {
+    private readonly file?: JsonFileStore<Record<string, LockEpoch>>;
+    private epochs?: Record<string, LockEpoch>;
+    // lockId -> id of the epoch holding it
+    private readonly byLock = new Map<string, string>();
+
+    constructor(filePath?: string) {
+        if (filePath) {
+            this.file = new JsonFileStore(filePath, () => ({}));
+        }
+    }
+
+    public get(id: string): LockEpoch | undefined {
+        return this.read()[id];
+    }
+
+    public list(status?: EpochStatus): LockEpoch[] {
+        return Object.values(this.read())
+            .filter(epoch => !status || epoch.status === status)
+            .sort((a, b) => a.openedAt.localeCompare(b.openedAt) || a.number - b.number);
+    }
+
+    public findByLock(lockId: string): LockEpoch | undefined {
+        const epochs = this.read();
+        const id = this.byLock.get(lockId);
+        return id ? epochs[id] : undefined;
+    }
+
+    // The route's open epoch, starting the next one when there is none
+    public open(sourceChainId: number, targetChainId: number, openedAt: Date = new Date()): LockEpoch {
+        const route = Object.values(this.read())
+            .filter(epoch => epoch.sourceChainId === sourceChainId && epoch.targetChainId === targetChainId);
+        const current = route.find(epoch => epoch.status === 'open');
+        if (current) return current;
+
+        // Pruning may have dropped the route's older epochs, but never its newest
+        const number = route.reduce((max, epoch) => Math.max(max, epoch.number + 1), 0);
+        const epoch: LockEpoch = {
+            id: `${sourceChainId}-${targetChainId}-${number}`,
+            number,
+            sourceChainId,
+            targetChainId,
+            status: 'open',
+            locks: [],
+            openedAt: openedAt.toISOString()
+        };
+        this.save(epoch);
+        return epoch;
+    }
+
+    public save(epoch: LockEpoch): void {
+        const epochs = this.read();
+        this.unindex(epochs[epoch.id]);
+        epochs[epoch.id] = epoch;
+        this.index(epoch);
+        this.file?.write(epochs);
+    }
+
+    /**
+     * Drops committed and retracted epochs finished before `before`, keeping
+     * each route's newest epoch so numbering carries on. Their inclusion
+     * proofs can no longer be served. Returns the epochs dropped.
+     */
+    public prune(before: Date): LockEpoch[] {
+        const epochs = this.read();
+        const newest = new Map<string, number>();
+        for (const epoch of Object.values(epochs)) {
+            const route = `${epoch.sourceChainId}-${epoch.targetChainId}`;
+            newest.set(route, Math.max(newest.get(route) ?? 0, epoch.number));
+        }
+
+        const pruned = Object.values(epochs).filter(epoch =>
+            (epoch.status === 'committed' || epoch.status === 'retracted') &&
+            Date.parse(epoch.committedAt ?? epoch.sealedAt ?? epoch.openedAt) < before.getTime() &&
+            epoch.number !== newest.get(`${epoch.sourceChainId}-${epoch.targetChainId}`));
+        if (pruned.length === 0) return [];
+
+        for (const epoch of pruned) {
+            this.unindex(epoch);
+            delete epochs[epoch.id];
+        }
+        this.file?.write(epochs);
+        return pruned;
+    }
+
+    private read(): Record<string, LockEpoch> {
+        if (!this.epochs) {
+            this.epochs = this.file ? this.file.read() : {};
+            Object.values(this.epochs).forEach(epoch => this.index(epoch));
+        }
+        return this.epochs;
+    }
+
+    private index(epoch: LockEpoch): void {
+        epoch.locks.forEach(lock => this.byLock.set(lock.lockId, epoch.id));
+    }
+
+    private unindex(epoch?: LockEpoch): void {
+        epoch?.locks.forEach(lock => {
+            if (this.byLock.get(lock.lockId) === epoch.id) this.byLock.delete(lock.lockId);
+        });
+    }
+}
@@ -0,0 +1,269 @@
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import type { TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { isNonceConflict } from './NonceManager';
+import { BridgeError, BridgeErrorType } from './BridgeErrors';
+
+export interface FeeStrategyConfig {
+    // Blocks of eth_feeHistory to sample
+    blockCount: number;
+    // Percentile of each block's priority fees to pay
+    rewardPercentile: number;
+    // Headroom over the next block's base fee, so a few full blocks do not strand the transaction
+    baseFeeMultiplier: number;
+    maxFeePerGasCap: ethers.BigNumberish;
+    maxPriorityFeePerGasCap: ethers.BigNumberish;
+    // How long a transaction may stay unmined before it is replaced
+    replaceAfter: number;
+    // Nodes reject replacements that raise fees by less than 10%
+    replacementBumpPercent: number;
+    pollInterval: number;
+    // How long a transaction may sit at the fee cap before waiting is abandoned
+    giveUpAfter: number;
+}
+
+export interface Eip1559Fees {
+    maxFeePerGas: ethers.BigNumber;
+    maxPriorityFeePerGas: ethers.BigNumber;
+}
+
+export interface TransactionReplacement {
+    nonce: number;
+    originalHash: string;
+    previousHash: string;
+    replacementHash: string;
+    fees: Eip1559Fees;
+}
+
+export const DEFAULT_FEE_STRATEGY_CONFIG: FeeStrategyConfig = {
+    blockCount: 10,
+    rewardPercentile: 50,
+    baseFeeMultiplier: 2,
+    maxFeePerGasCap: ethers.utils.parseUnits('500', 'gwei'),
+    maxPriorityFeePerGasCap: ethers.utils.parseUnits('10', 'gwei'),
+    replaceAfter: 120000,
+    replacementBumpPercent: 15,
+    pollInterval: 4000,
+    giveUpAfter: 1800000
+};
+
+const UNDERPRICED = /underpriced|already known/i;
+
+const min = (a: ethers.BigNumber, b: ethers.BigNumber) => a.lt(b) ? a : b;
+const max = (a: ethers.BigNumber, b: ethers.BigNumber) => a.gt(b) ? a : b;
+
+/**
+ * EIP-1559 fees for one chain, priced from eth_feeHistory and held under the
+ * chain's caps. Signers wrapped by the strategy replace their own transactions
+ * at the same nonce when they stay unmined for longer than `replaceAfter`.
+ */
+export class FeeStrategy extends EventEmitter {
+    private readonly provider: ethers.providers.JsonRpcProvider;
+    private readonly config: FeeStrategyConfig;
+    private readonly now: () => number;
+    private readonly sleep: (ms: number) => Promise<void>;
+
+    constructor(
+        provider: ethers.providers.JsonRpcProvider,
+        config: FeeStrategyConfig = DEFAULT_FEE_STRATEGY_CONFIG,
+        now: () => number = Date.now,
+        sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+    ) {
+        super();
+        this.provider = provider;
+        this.config = config;
+        this.now = now;
+        this.sleep = sleep;
+    }
+
+    public async getFees(): Promise<Eip1559Fees> {
+        const { blockCount, rewardPercentile, baseFeeMultiplier } = this.config;
+        const history = await this.provider.send('eth_feeHistory', [
+            ethers.utils.hexValue(blockCount),
+            'latest',
+            [rewardPercentile]
+        ]);
+
+        // baseFeePerGas has one extra entry: the base fee of the next block
+        const baseFees: ethers.BigNumber[] = history.baseFeePerGas.map((fee: string) => ethers.BigNumber.from(fee));
+        const nextBaseFee = baseFees[baseFees.length - 1];
+        const rewards: ethers.BigNumber[] = (history.reward || [])
+            .map((reward: string[]) => ethers.BigNumber.from(reward[0]))
+            .sort((a: ethers.BigNumber, b: ethers.BigNumber) => a.lt(b) ? -1 : a.gt(b) ? 1 : 0);
+        const medianReward = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : ethers.constants.Zero;
+
+        const maxFeeCap = ethers.BigNumber.from(this.config.maxFeePerGasCap);
+        const maxFeePerGas = min(
+            nextBaseFee.mul(Math.round(baseFeeMultiplier * 100)).div(100).add(medianReward),
+            maxFeeCap
+        );
+        const maxPriorityFeePerGas = min(
+            min(medianReward, ethers.BigNumber.from(this.config.maxPriorityFeePerGasCap)),
+            maxFeePerGas
+        );
+
+        return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    /**
+     * Fees for replacing a transaction sent with `previous`: at least the
+     * required bump and at least the current market. Undefined when the caps
+     * leave no room for a bump the node would accept.
+     */
+    public bump(previous: Eip1559Fees, market: Eip1559Fees): Eip1559Fees | undefined {
+        const factor = 100 + this.config.replacementBumpPercent;
+        const maxFeePerGas = max(previous.maxFeePerGas.mul(factor).div(100), market.maxFeePerGas);
+        const maxPriorityFeePerGas = max(previous.maxPriorityFeePerGas.mul(factor).div(100), market.maxPriorityFeePerGas);
+
+        if (maxFeePerGas.gt(this.config.maxFeePerGasCap) ||
+            maxPriorityFeePerGas.gt(this.config.maxPriorityFeePerGasCap) ||
+            maxPriorityFeePerGas.gt(maxFeePerGas)) {
+            return undefined;
+        }
+        return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    public wrap(signer: ethers.Signer): ethers.Signer {
+        return signer instanceof FeeManagedSigner ? signer : new FeeManagedSigner(signer, this);
+    }
+
+    /**
+     * Waits for `response` or any of its replacements to be mined, replacing
+     * the pending transaction whenever it has waited longer than `replaceAfter`.
+     * Throws a FeeCapReached error once the transaction has sat at the caps
+     * for longer than `giveUpAfter`; it may still be mined later.
+     */
+    public async waitOrReplace(
+        signer: ethers.Signer,
+        response: ethers.providers.TransactionResponse,
+        confirmations: number = 1
+    ): Promise<ethers.providers.TransactionReceipt> {
+        const hashes = [response.hash];
+        let current = response;
+        let fees: Eip1559Fees = {
+            maxFeePerGas: response.maxFeePerGas ?? ethers.constants.Zero,
+            maxPriorityFeePerGas: response.maxPriorityFeePerGas ?? ethers.constants.Zero
+        };
+        let sentAt = this.now();
+        let cappedAt: number | undefined;
+
+        while (true) {
+            // An earlier transaction can still win the race against its replacement
+            for (const hash of hashes) {
+                let receipt = await this.provider.getTransactionReceipt(hash);
+                if (!receipt) continue;
+
+                if (receipt.confirmations < confirmations) {
+                    receipt = await this.provider.waitForTransaction(hash, confirmations);
+                }
+                if (receipt.status === 0) {
+                    throw ethers.logger.makeError('transaction failed', ethers.utils.Logger.errors.CALL_EXCEPTION, {
+                        transactionHash: hash,
+                        transaction: current,
+                        receipt
+                    });
+                }
+                return receipt;
+            }
+
+            if (this.now() - sentAt >= this.config.replaceAfter) {
+                sentAt = this.now();
+                const bumped = this.bump(fees, await this.getFees());
+
+                if (!bumped) {
+                    cappedAt = cappedAt ?? sentAt;
+                    this.emit('feeCapReached', { nonce: response.nonce, hash: current.hash, fees });
+
+                    if (this.now() - cappedAt >= this.config.giveUpAfter) {
+                        this.emit('gaveUp', { nonce: response.nonce, hash: current.hash, fees });
+                        throw new BridgeError({
+                            type: BridgeErrorType.FeeCapReached,
+                            message: `Transaction ${current.hash} is still unmined at the fee cap`,
+                            details: { nonce: response.nonce, hashes, fees }
+                        });
+                    }
+                } else {
+                    try {
+                        const replacement = await signer.sendTransaction({
+                            to: response.to,
+                            data: response.data,
+                            value: response.value,
+                            gasLimit: response.gasLimit,
+                            chainId: response.chainId,
+                            nonce: response.nonce,
+                            type: 2,
+                            ...bumped
+                        });
+                        hashes.push(replacement.hash);
+
+                        const recorded: TransactionReplacement = {
+                            nonce: response.nonce,
+                            originalHash: response.hash,
+                            previousHash: current.hash,
+                            replacementHash: replacement.hash,
+                            fees: bumped
+                        };
+                        this.emit('replaced', recorded);
+                        current = replacement;
+                        fees = bumped;
+                    } catch (error) {
+                        // Either a copy already got mined, or the node wants a bigger bump next round
+                        if (!isNonceConflict(error) && !UNDERPRICED.test(error instanceof Error ? error.message : String(error))) {
+                            throw error;
+                        }
+                    }
+                }
+            }
+
+            await this.sleep(this.config.pollInterval);
+        }
+    }
+}
+
+class FeeManagedSigner extends ethers.Signer implements TypedDataSigner {
+    private readonly signer: ethers.Signer;
+    private readonly strategy: FeeStrategy;
+
+    constructor(signer: ethers.Signer, strategy: FeeStrategy) {
+        super();
+        this.signer = signer;
+        this.strategy = strategy;
+        ethers.utils.defineReadOnly(this, 'provider', signer.provider);
+    }
+
+    getAddress(): Promise<string> {
+        return this.signer.getAddress();
+    }
+
+    signMessage(message: ethers.Bytes | string): Promise<string> {
+        return this.signer.signMessage(message);
+    }
+
+    signTransaction(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<string> {
+        return this.signer.signTransaction(transaction);
+    }
+
+    _signTypedData(
+        domain: TypedDataDomain,
+        types: Record<string, Array<TypedDataField>>,
+        value: Record<string, any>
+    ): Promise<string> {
+        return (this.signer as ethers.Signer & TypedDataSigner)._signTypedData(domain, types, value);
+    }
+
+    connect(provider: ethers.providers.Provider): ethers.Signer {
+        return new FeeManagedSigner(this.signer.connect(provider), this.strategy);
+    }
+
+    async sendTransaction(
+        transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+    ): Promise<ethers.providers.TransactionResponse> {
+        // Callers that priced the transaction themselves keep their fees
+        const priced = transaction.gasPrice !== undefined || transaction.maxFeePerGas !== undefined;
+        const request = priced ? transaction : { ...transaction, type: 2, ...await this.strategy.getFees() };
+
+        const response = await this.signer.sendTransaction(request);
+        response.wait = (confirmations?: number) => this.strategy.waitOrReplace(this.signer, response, confirmations);
+        return response;
+    }
+}
@@ -0,0 +1,37 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Small JSON document store backed by a single file. Writes go through a
+ * temporary file and a rename so a crash never leaves a half-written document.
+ */
+export class JsonFileStore<T> {
+    private readonly filePath: string;
+    private readonly defaults: () => T;
+
+    constructor(filePath: string, defaults: () => T) {
+        this.filePath = filePath;
+        this.defaults = defaults;
+    }
+
+    public read(): T {
+        if (!fs.existsSync(this.filePath)) {
+            return this.defaults();
+        }
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    }
+
+    public write(data: T): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+        fs.renameSync(tmpPath, this.filePath);
+    }
+
+    public update(mutate: (data: T) => void): T {
+        const data = this.read();
+        mutate(data);
+        this.write(data);
+        return data;
+    }
+}
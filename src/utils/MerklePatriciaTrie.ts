@@ -0,0 +1,200 @@
+import { ethers } from 'ethers';
+
+type RlpNode = string | RlpNode[];
+
+type TrieNode =
+    | { type: 'leaf'; path: number[]; value: string }
+    | { type: 'extension'; path: number[]; child: TrieNode }
+    | { type: 'branch'; children: (TrieNode | undefined)[]; value?: string };
+
+interface Entry {
+    nibbles: number[];
+    value: string;
+}
+
+function toNibbles(key: string): number[] {
+    return Array.from(ethers.utils.arrayify(key)).flatMap(byte => [byte >> 4, byte & 0x0f]);
+}
+
+// Hex-prefix encoding of a node path, flagging leaves and odd lengths
+function encodePath(path: number[], leaf: boolean): string {
+    const flag = (leaf ? 2 : 0) + (path.length % 2);
+    const nibbles = path.length % 2 === 1 ? [flag, ...path] : [flag, 0, ...path];
+    const bytes: number[] = [];
+    for (let i = 0; i < nibbles.length; i += 2) {
+        bytes.push((nibbles[i] << 4) | nibbles[i + 1]);
+    }
+    return ethers.utils.hexlify(bytes);
+}
+
+function decodePath(encoded: string): { path: number[]; leaf: boolean } {
+    const nibbles = toNibbles(encoded);
+    if (nibbles.length === 0 || nibbles[0] > 3) {
+        throw new Error(`Malformed trie node path ${encoded}`);
+    }
+    return {
+        path: nibbles.slice(nibbles[0] % 2 === 1 ? 1 : 2),
+        leaf: nibbles[0] >= 2
+    };
+}
+
+function commonPrefixLength(entries: Entry[]): number {
+    const [first, ...rest] = entries;
+    let length = 0;
+    while (length < first.nibbles.length && rest.every(entry => entry.nibbles[length] === first.nibbles[length])) {
+        length++;
+    }
+    return length;
+}
+
+function build(entries: Entry[]): TrieNode {
+    if (entries.length === 1) {
+        return { type: 'leaf', path: entries[0].nibbles, value: entries[0].value };
+    }
+
+    const prefix = commonPrefixLength(entries);
+    if (prefix > 0) {
+        return {
+            type: 'extension',
+            path: entries[0].nibbles.slice(0, prefix),
+            child: build(entries.map(entry => ({ ...entry, nibbles: entry.nibbles.slice(prefix) })))
+        };
+    }
+
+    const children: (TrieNode | undefined)[] = [];
+    for (let nibble = 0; nibble < 16; nibble++) {
+        const branch = entries
+            .filter(entry => entry.nibbles[0] === nibble)
+            .map(entry => ({ ...entry, nibbles: entry.nibbles.slice(1) }));
+        children.push(branch.length > 0 ? build(branch) : undefined);
+    }
+    return { type: 'branch', children, value: entries.find(entry => entry.nibbles.length === 0)?.value };
+}
+
+function raw(node: TrieNode): RlpNode[] {
+    switch (node.type) {
+        case 'leaf':
+            return [encodePath(node.path, true), node.value];
+        case 'extension':
+            return [encodePath(node.path, false), reference(node.child)];
+        case 'branch':
+            return [...node.children.map(child => child ? reference(child) : '0x'), node.value ?? '0x'];
+    }
+}
+
+// Nodes shorter than 32 bytes are embedded in their parent instead of hashed
+function reference(node: TrieNode): RlpNode {
+    const encoded = ethers.utils.RLP.encode(raw(node));
+    return ethers.utils.hexDataLength(encoded) < 32 ? raw(node) : ethers.utils.keccak256(encoded);
+}
+
+/**
+ * Ethereum's Merkle-Patricia trie, built in memory from a complete key set.
+ * Enough to rebuild a block's transactions or receipts trie and prove one of
+ * its entries; proofs have the same shape as eth_getProof's.
+ */
+export class MerklePatriciaTrie {
+    private readonly node?: TrieNode;
+
+    constructor(entries: { key: string; value: string }[]) {
+        const keys = new Set<string>();
+        for (const { key } of entries) {
+            const normalized = ethers.utils.hexlify(key);
+            if (keys.has(normalized)) {
+                throw new Error(`Duplicate trie key ${normalized}`);
+            }
+            keys.add(normalized);
+        }
+        if (entries.length > 0) {
+            this.node = build(entries.map(({ key, value }) => ({ nibbles: toNibbles(key), value: ethers.utils.hexlify(value) })));
+        }
+    }
+
+    public get root(): string {
+        return ethers.utils.keccak256(ethers.utils.RLP.encode(this.node ? raw(this.node) : '0x'));
+    }
+
+    // RLP-encoded nodes from the root to the key's value, skipping embedded nodes
+    public getProof(key: string): string[] {
+        const proof: string[] = [];
+        let nibbles = toNibbles(key);
+        let node = this.node;
+
+        while (node) {
+            const encoded = ethers.utils.RLP.encode(raw(node));
+            if (proof.length === 0 || ethers.utils.hexDataLength(encoded) >= 32) {
+                proof.push(encoded);
+            }
+
+            if (node.type === 'branch') {
+                if (nibbles.length === 0) return proof;
+                node = node.children[nibbles[0]];
+                nibbles = nibbles.slice(1);
+                continue;
+            }
+
+            const path = node.path;
+            if (path.some((nibble, i) => nibbles[i] !== nibble)) break;
+            nibbles = nibbles.slice(path.length);
+            if (node.type === 'leaf') {
+                if (nibbles.length === 0) return proof;
+                break;
+            }
+            node = node.child;
+        }
+        throw new Error(`Key ${ethers.utils.hexlify(key)} is not in the trie`);
+    }
+
+    /**
+     * Walks a proof from the root and returns the value stored under the key.
+     * Throws when a node does not hash to its reference or the key is absent.
+     */
+    public static verify(root: string, key: string, proof: string[]): string {
+        let nibbles = toNibbles(key);
+        let reference: RlpNode = ethers.utils.hexlify(root);
+        let next = 0;
+
+        for (;;) {
+            let node: RlpNode;
+            if (typeof reference === 'string') {
+                const encoded = proof[next++];
+                if (!encoded || ethers.utils.keccak256(encoded) !== reference.toLowerCase()) {
+                    throw new Error(`Proof node ${next - 1} does not match its reference ${reference}`);
+                }
+                node = ethers.utils.RLP.decode(encoded);
+            } else {
+                node = reference;
+            }
+
+            if (!Array.isArray(node)) {
+                throw new Error('Malformed trie node');
+            }
+
+            if (node.length === 17) {
+                if (nibbles.length === 0) {
+                    const value = node[16];
+                    if (typeof value !== 'string' || value === '0x') break;
+                    return value;
+                }
+                reference = node[nibbles[0]];
+                nibbles = nibbles.slice(1);
+                if (reference === '0x') break;
+                continue;
+            }
+
+            if (node.length !== 2 || typeof node[0] !== 'string') {
+                throw new Error('Malformed trie node');
+            }
+            const { path, leaf } = decodePath(node[0]);
+            if (path.some((nibble, i) => nibbles[i] !== nibble)) break;
+            nibbles = nibbles.slice(path.length);
+
+            if (leaf) {
+                if (nibbles.length > 0 || typeof node[1] !== 'string') break;
+                return node[1];
+            }
+            reference = node[1];
+        }
+        throw new Error(`Key ${ethers.utils.hexlify(key)} is not in the trie`);
+    }
+}
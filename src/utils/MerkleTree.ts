@@ -0,0 +1,66 @@
+import { ethers } from 'ethers';
+
+// Sorted-pair hashing, as OpenZeppelin's MerkleProof expects
+export function hashPair(a: string, b: string): string {
+    const [left, right] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+    return ethers.utils.keccak256(ethers.utils.concat([left, right]));
+}
+
+/**
+ * Binary Merkle tree over 32-byte leaves. Leaves are sorted first so the root
+ * does not depend on insertion order; an unpaired node moves up unchanged.
+ * Proofs verify with OpenZeppelin's MerkleProof.verify.
+ */
+export class MerkleTree {
+    private readonly layers: string[][];
+
+    constructor(leaves: string[]) {
+        if (leaves.length === 0) {
+            throw new Error('Cannot build a Merkle tree without leaves');
+        }
+        const sorted = leaves.map(leaf => ethers.utils.hexlify(leaf)).sort();
+        if (sorted.some((leaf, i) => ethers.utils.hexDataLength(leaf) !== 32 || leaf === sorted[i - 1])) {
+            throw new Error('Merkle leaves must be distinct 32-byte hashes');
+        }
+
+        this.layers = [sorted];
+        while (this.layers[this.layers.length - 1].length > 1) {
+            const layer = this.layers[this.layers.length - 1];
+            const next: string[] = [];
+            for (let i = 0; i < layer.length; i += 2) {
+                next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+            }
+            this.layers.push(next);
+        }
+    }
+
+    public get root(): string {
+        return this.layers[this.layers.length - 1][0];
+    }
+
+    public get leaves(): string[] {
+        return [...this.layers[0]];
+    }
+
+    public getProof(leaf: string): string[] {
+        let index = this.layers[0].indexOf(ethers.utils.hexlify(leaf));
+        if (index < 0) {
+            throw new Error(`Leaf ${leaf} is not in the tree`);
+        }
+
+        const proof: string[] = [];
+        for (const layer of this.layers.slice(0, -1)) {
+            const sibling = index % 2 === 0 ? index + 1 : index - 1;
+            if (sibling < layer.length) {
+                proof.push(layer[sibling]);
+            }
+            index = Math.floor(index / 2);
+        }
+        return proof;
+    }
+
+    public static verify(root: string, leaf: string, proof: string[]): boolean {
+        const computed = proof.reduce((node, sibling) => hashPair(node, sibling), ethers.utils.hexlify(leaf));
+        return computed.toLowerCase() === root.toLowerCase();
+    }
+}
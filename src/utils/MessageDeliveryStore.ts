@@ -0,0 +1,56 @@
+import { JsonFileStore } from './JsonFileStore';
+
+// undeliverable: the payload could not be decoded or names no configured chain
+export type DeliveryStatus = 'delivered' | 'failed' | 'undeliverable';
+
+export interface DeliveryRecord {
+    messageId: string;
+    sourceChainId: number;
+    targetChainId?: number;
+    target?: string;
+    status: DeliveryStatus;
+    // Destination transaction that delivered the message
+    txHash?: string;
+    error?: string;
+    attempts: number;
+    updatedAt: string;
+}
+
+/**
+ * Delivery result per mirrored message. Kept in memory unless a file path is
+ * given, like RelayHistory for asset unlocks.
+ */
+export class MessageDeliveryStore {
+    private readonly file?: JsonFileStore<Record<string, DeliveryRecord>>;
+    private readonly memory: Record<string, DeliveryRecord> = {};
+
+    constructor(filePath?: string) {
+        if (filePath) {
+            this.file = new JsonFileStore(filePath, () => ({}));
+        }
+    }
+
+    public get(messageId: string): DeliveryRecord | undefined {
+        return this.file ? this.file.read()[messageId] : this.memory[messageId];
+    }
+
+    public list(status?: DeliveryStatus): DeliveryRecord[] {
+        const records = Object.values(this.file ? this.file.read() : this.memory);
+        return status ? records.filter(record => record.status === status) : records;
+    }
+
+    public record(entry: Omit<DeliveryRecord, 'attempts' | 'updatedAt'>): DeliveryRecord {
+        const record: DeliveryRecord = {
+            ...entry,
+            attempts: (this.get(entry.messageId)?.attempts ?? 0) + 1,
+            updatedAt: new Date().toISOString()
+        };
+
+        if (this.file) {
+            this.file.update(records => { records[entry.messageId] = record; });
+        } else {
+            this.memory[entry.messageId] = record;
+        }
+        return record;
+    }
+}
@@ -1,6 +1,29 @@
 import { ethers } from 'ethers';
 import type { Provider } from '@ethersproject/providers';
 import { EventEmitter } from 'events';
+import type { DeadLetter } from './DeadLetterQueue';
+
+// The cross-chain message an entry carries, as the message codec identifies it
+export interface TrackedMessage {
+    envelopeHash: string;
+    // Name of the envelope's payload type, e.g. 'Lock'
+    payloadType: string;
+}
+
+export interface TrackedTransaction {
+    // What the entry is tracked under: a lock ID, message ID or proposal hash
+    txHash: string;
+    // The transaction currently carrying it on chain, updated when a fee bump replaces it
+    submittedTxHash?: string;
+    sourceChainId: number;
+    targetChainId: number;
+    status: 'pending' | 'confirmed' | 'failed' | 'retracted';
+    startTime: number;
+    endTime?: number;
+    // Set when tracked from a message envelope: the message's canonical identity
+    envelopeHash?: string;
+    payloadType?: string;
+}
 
 export class MonitoringService extends EventEmitter {
     private readonly provider: Provider;
@@ -8,6 +31,9 @@ export class MonitoringService extends EventEmitter {
     private errorThresholds: Map<string, number>;
     private errorCounts: Map<string, number>;
     private lastAlertTime: Map<string, number>;
+    private transactions: Map<string, TrackedTransaction>;
+    // Replaced transaction hash -> the hash that replaced it
+    private replacements: Map<string, string>;
     private readonly alertCooldown: number = 3600; // 1 hour in seconds
 
     constructor(provider: Provider, bridgeAddress: string) {
@@ -17,6 +43,8 @@ export class MonitoringService extends EventEmitter {
         this.errorThresholds = new Map();
         this.errorCounts = new Map();
         this.lastAlertTime = new Map();
+        this.transactions = new Map();
+        this.replacements = new Map();
         this.initializeErrorThresholds();
     }
 
@@ -134,6 +162,121 @@ export class MonitoringService extends EventEmitter {
         }, 60000); // Check every minute
     }
 
+    public trackTransaction(txHash: string, sourceChainId: number, targetChainId: number, message?: TrackedMessage): void {
+        const transaction: TrackedTransaction = {
+            txHash,
+            sourceChainId,
+            targetChainId,
+            status: 'pending',
+            startTime: Date.now(),
+            envelopeHash: message?.envelopeHash,
+            payloadType: message?.payloadType
+        };
+        this.transactions.set(txHash, transaction);
+        this.emit('transactionTracked', transaction);
+    }
+
+    public async confirmTransaction(txHash: string, success: boolean): Promise<void> {
+        const transaction = this.transactions.get(txHash);
+        if (!transaction || transaction.status !== 'pending') return;
+
+        transaction.status = success ? 'confirmed' : 'failed';
+        transaction.endTime = Date.now();
+        this.emit('transactionConfirmed', transaction);
+
+        if (!success) {
+            // Failed bridge operations feed the same threshold/alert pipeline as on-chain errors
+            const errorType = 'BridgeOperationFailed';
+            const currentCount = (this.errorCounts.get(errorType) || 0) + 1;
+            this.errorCounts.set(errorType, currentCount);
+
+            const threshold = this.errorThresholds.get(errorType);
+            if (threshold && currentCount >= threshold) {
+                const message = transaction.envelopeHash
+                    ? `${transaction.payloadType} message ${transaction.envelopeHash} (${txHash}) failed`
+                    : `Transaction ${txHash} failed`;
+                await this.triggerAlert(
+                    errorType,
+                    `${message} (${transaction.sourceChainId} -> ${transaction.targetChainId})`,
+                    ethers.constants.AddressZero,
+                    currentCount
+                );
+            }
+        }
+    }
+
+    // Reorgs are always alerted: relayed locks may no longer exist on the source chain
+    public reportReorg(chainId: number, blockNumber: number, lockIds: string[]): void {
+        for (const lockId of lockIds) {
+            const transaction = this.transactions.get(lockId);
+            if (transaction && transaction.sourceChainId === chainId) {
+                transaction.status = 'retracted';
+                transaction.endTime = Date.now();
+            }
+        }
+
+        this.emit('alert', {
+            type: 'ChainReorg',
+            message: `Chain ${chainId} reorganized from block ${blockNumber}, ${lockIds.length} lock(s) retracted`,
+            chainId,
+            blockNumber,
+            lockIds,
+            timestamp: new Date(),
+            severity: lockIds.length > 0 ? 'CRITICAL' : 'MEDIUM'
+        });
+    }
+
+    // A dead-lettered relay will not be retried until an operator requeues it
+    public reportDeadLetter(entry: DeadLetter): void {
+        this.emit('alert', {
+            type: 'DeadLetter',
+            message: `${entry.kind === 'lock' ? 'Lock' : 'Message'} ${entry.id} from chain ${entry.sourceChainId} dead-lettered: ${entry.errorType ?? entry.failure}`,
+            id: entry.id,
+            chainId: entry.sourceChainId,
+            targetChainId: entry.targetChainId,
+            errorType: entry.errorType,
+            timestamp: new Date(),
+            severity: 'HIGH'
+        });
+    }
+
+    public recordSubmission(txHash: string, submittedTxHash: string): void {
+        const transaction = this.transactions.get(txHash);
+        if (transaction) {
+            transaction.submittedTxHash = submittedTxHash;
+        }
+    }
+
+    public recordReplacement(previousHash: string, replacementHash: string): void {
+        this.replacements.set(previousHash, replacementHash);
+
+        // Entries stay under their own key; only the transaction carrying them changes
+        for (const transaction of this.transactions.values()) {
+            if (transaction.submittedTxHash === previousHash) {
+                transaction.submittedTxHash = replacementHash;
+            }
+        }
+
+        this.emit('transactionReplaced', { previousHash, replacementHash });
+    }
+
+    public getFinalHash(txHash: string): string {
+        let current = txHash;
+        while (this.replacements.has(current)) {
+            current = this.replacements.get(current)!;
+        }
+        return current;
+    }
+
+    // Looks up by tracking key, or by any hash the entry was submitted under
+    public getTransaction(txHash: string): TrackedTransaction | undefined {
+        const tracked = this.transactions.get(txHash);
+        if (tracked) return tracked;
+
+        const finalHash = this.getFinalHash(txHash);
+        return [...this.transactions.values()].find(transaction => transaction.submittedTxHash === finalHash);
+    }
+
     public updateErrorThreshold(errorType: string, threshold: number): void {
         if (threshold < 1) throw new Error('Threshold must be greater than 0');
         this.errorThresholds.set(errorType, threshold);
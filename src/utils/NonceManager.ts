@@ -0,0 +1,231 @@
+import { ethers } from 'ethers';
+import type { TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer';
+
+// Reconcile polls a transaction must be missing from before its nonce counts as dropped
+const DROPPED_AFTER_POLLS = 3;
+
+// The node already has a transaction at the nonce we handed out
+const NONCE_CONFLICT = /nonce too low|nonce has already been used|already known/i;
+
+export function isNonceConflict(error: any): boolean {
+    let current = error;
+    for (let depth = 0; current && depth < 5; depth++) {
+        if (current.code === 'NONCE_EXPIRED') return true;
+        if (typeof current.message === 'string' && NONCE_CONFLICT.test(current.message)) return true;
+        current = current.error;
+    }
+    return false;
+}
+
+/**
+ * Nonce bookkeeping for one (chain, account). All changes run one at a time
+ * so concurrent submissions never receive the same nonce.
+ */
+export class NonceLedger {
+    private readonly signer: ethers.Signer;
+    private next?: number;
+    // Handed out but never mined, reused before new nonces so later transactions are not stuck behind them
+    private gaps: number[] = [];
+    private readonly inFlight = new Map<number, string>();
+    // Consecutive reconcile polls each in-flight nonce's transaction was missing from
+    private readonly misses = new Map<number, number>();
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(signer: ethers.Signer) {
+        this.signer = signer;
+    }
+
+    public acquire(): Promise<number> {
+        return this.serialize(async () => {
+            if (this.next === undefined) {
+                await this.sync();
+            }
+            return this.gaps.length > 0 ? this.gaps.shift()! : this.next!++;
+        });
+    }
+
+    public sent(nonce: number, txHash: string): void {
+        this.inFlight.set(nonce, txHash);
+        this.misses.delete(nonce);
+    }
+
+    /**
+     * Hands back a nonce that was never broadcast. Resolves to false when later
+     * nonces are already out: they stay stuck until the caller fills this one.
+     */
+    public release(nonce: number): Promise<boolean> {
+        return this.serialize(async () => {
+            if (this.next === undefined || nonce >= this.next) return true;
+            if (nonce === this.next - 1) {
+                this.next--;
+                return true;
+            }
+            return false;
+        });
+    }
+
+    // Keeps a nonce that could not be filled for the next send
+    public abandon(nonce: number): Promise<void> {
+        return this.serialize(async () => {
+            if (this.next !== undefined && nonce < this.next && !this.gaps.includes(nonce)) {
+                this.gaps.push(nonce);
+                this.gaps.sort((a, b) => a - b);
+            }
+        });
+    }
+
+    public resync(): Promise<void> {
+        return this.serialize(() => this.sync());
+    }
+
+    /**
+     * Forgets mined transactions and turns dropped ones back into usable nonces.
+     * A node may not have indexed a fresh transaction yet, so one only counts as
+     * dropped once it is missing from DROPPED_AFTER_POLLS polls in a row and the
+     * node's pending count has not moved past its nonce.
+     */
+    public reconcile(): Promise<number[]> {
+        return this.serialize(async () => {
+            const mined = await this.signer.getTransactionCount('latest');
+            const pending = await this.signer.getTransactionCount('pending');
+            const dropped: number[] = [];
+
+            for (const [nonce, txHash] of this.inFlight) {
+                if (nonce < mined) {
+                    this.inFlight.delete(nonce);
+                    this.misses.delete(nonce);
+                } else if (nonce < pending || await this.signer.provider!.getTransaction(txHash)) {
+                    this.misses.delete(nonce);
+                } else {
+                    const misses = (this.misses.get(nonce) ?? 0) + 1;
+                    this.misses.set(nonce, misses);
+                    if (misses >= DROPPED_AFTER_POLLS) {
+                        this.inFlight.delete(nonce);
+                        this.misses.delete(nonce);
+                        dropped.push(nonce);
+                    }
+                }
+            }
+
+            this.gaps = Array.from(new Set([...this.gaps, ...dropped]))
+                .filter(nonce => nonce >= mined)
+                .sort((a, b) => a - b);
+            return dropped;
+        });
+    }
+
+    private async sync(): Promise<void> {
+        // The node's pending count already includes everything it accepted from us
+        this.next = await this.signer.getTransactionCount('pending');
+        this.gaps = [];
+    }
+
+    private serialize<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(operation);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+/**
+ * Hands out nonces locally per (chain, signer) so one wallet can keep many
+ * transactions in flight. Share a single instance between every service that
+ * sends from the same account.
+ */
+export class NonceManager {
+    private readonly ledgers = new Map<string, NonceLedger>();
+
+    public wrap(signer: ethers.Signer): ethers.Signer {
+        return signer instanceof ManagedSigner ? signer : new ManagedSigner(signer, this);
+    }
+
+    public async getLedger(signer: ethers.Signer): Promise<NonceLedger> {
+        const key = `${await signer.getChainId()}:${(await signer.getAddress()).toLowerCase()}`;
+        let ledger = this.ledgers.get(key);
+        if (!ledger) {
+            ledger = new NonceLedger(signer);
+            this.ledgers.set(key, ledger);
+        }
+        return ledger;
+    }
+
+    public async reconcile(): Promise<number[]> {
+        const dropped = await Promise.all(Array.from(this.ledgers.values()).map(ledger => ledger.reconcile()));
+        return dropped.flat();
+    }
+}
+
+class ManagedSigner extends ethers.Signer implements TypedDataSigner {
+    private readonly signer: ethers.Signer;
+    private readonly manager: NonceManager;
+
+    constructor(signer: ethers.Signer, manager: NonceManager) {
+        super();
+        this.signer = signer;
+        this.manager = manager;
+        ethers.utils.defineReadOnly(this, 'provider', signer.provider);
+    }
+
+    getAddress(): Promise<string> {
+        return this.signer.getAddress();
+    }
+
+    signMessage(message: ethers.Bytes | string): Promise<string> {
+        return this.signer.signMessage(message);
+    }
+
+    signTransaction(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<string> {
+        return this.signer.signTransaction(transaction);
+    }
+
+    _signTypedData(
+        domain: TypedDataDomain,
+        types: Record<string, Array<TypedDataField>>,
+        value: Record<string, any>
+    ): Promise<string> {
+        return (this.signer as ethers.Signer & TypedDataSigner)._signTypedData(domain, types, value);
+    }
+
+    connect(provider: ethers.providers.Provider): ethers.Signer {
+        return new ManagedSigner(this.signer.connect(provider), this.manager);
+    }
+
+    async sendTransaction(
+        transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+    ): Promise<ethers.providers.TransactionResponse> {
+        // An explicit nonce is a deliberate replacement, which takes over the nonce's in-flight entry
+        if (transaction.nonce !== undefined && transaction.nonce !== null) {
+            const replacement = await this.signer.sendTransaction(transaction);
+            (await this.manager.getLedger(this.signer)).sent(replacement.nonce, replacement.hash);
+            return replacement;
+        }
+
+        // Estimated before a nonce is taken: a reverting call must not leave a hole behind later sends
+        const gasLimit = transaction.gasLimit ?? await this.signer.estimateGas(transaction);
+
+        const ledger = await this.manager.getLedger(this.signer);
+        const nonce = await ledger.acquire();
+        try {
+            const response = await this.signer.sendTransaction({ ...transaction, gasLimit, nonce });
+            ledger.sent(nonce, response.hash);
+            return response;
+        } catch (error) {
+            if (isNonceConflict(error)) {
+                await ledger.resync();
+            } else if (!await ledger.release(nonce)) {
+                await this.fillNonce(ledger, nonce);
+            }
+            throw error;
+        }
+    }
+
+    // A 0-value send to ourselves, so later transactions are not stuck behind an unused nonce
+    private async fillNonce(ledger: NonceLedger, nonce: number): Promise<void> {
+        try {
+            const filler = await this.signer.sendTransaction({ to: await this.getAddress(), value: 0, nonce });
+            ledger.sent(nonce, filler.hash);
+        } catch {
+            await ledger.abandon(nonce);
+        }
+    }
+}
@@ -0,0 +1,86 @@
+import { JsonFileStore } from './JsonFileStore';
+
+// Ordered: a lock only ever moves forward through these states
+export const RELAY_STATES = ['seen', 'submitted', 'confirmed', 'finalized'] as const;
+export type RelayState = typeof RELAY_STATES[number];
+
+export interface RelayRecord {
+    lockId: string;
+    sourceChainId: number;
+    targetChainId: number;
+    state: RelayState;
+    // Unlock transaction on the target chain, absent when another relayer processed the lock
+    txHash?: string;
+    alreadyProcessed?: boolean;
+    updatedAt: string;
+}
+
+/**
+ * Per-lockId relay progress. Kept in memory unless a file path is given, in
+ * which case a restarted relayer knows which locks it already handled.
+ */
+export class RelayHistory {
+    private readonly file?: JsonFileStore<Record<string, RelayRecord>>;
+    private readonly memory: Record<string, RelayRecord> = {};
+
+    constructor(filePath?: string) {
+        if (filePath) {
+            this.file = new JsonFileStore(filePath, () => ({}));
+        }
+    }
+
+    public get(lockId: string): RelayRecord | undefined {
+        return this.file ? this.file.read()[lockId] : this.memory[lockId];
+    }
+
+    public list(state?: RelayState): RelayRecord[] {
+        const records = Object.values(this.file ? this.file.read() : this.memory);
+        return state ? records.filter(record => record.state === state) : records;
+    }
+
+    public hasReached(lockId: string, state: RelayState): boolean {
+        const record = this.get(lockId);
+        return !!record && RELAY_STATES.indexOf(record.state) >= RELAY_STATES.indexOf(state);
+    }
+
+    // Drops a lock's record, for locks a reorg removed before anything was submitted for them
+    public forget(lockId: string): void {
+        if (this.file) {
+            this.file.update(records => { delete records[lockId]; });
+        } else {
+            delete this.memory[lockId];
+        }
+    }
+
+    /**
+     * Moves a lock to `state`, creating the record if needed. Moving backwards
+     * is ignored so replayed events cannot undo recorded progress.
+     */
+    public advance(
+        lock: Pick<RelayRecord, 'lockId' | 'sourceChainId' | 'targetChainId'>,
+        state: RelayState,
+        fields: Pick<RelayRecord, 'txHash' | 'alreadyProcessed'> = {}
+    ): RelayRecord {
+        const existing = this.get(lock.lockId);
+        if (existing && RELAY_STATES.indexOf(existing.state) >= RELAY_STATES.indexOf(state)) {
+            return existing;
+        }
+
+        const record: RelayRecord = {
+            ...existing,
+            lockId: lock.lockId,
+            sourceChainId: lock.sourceChainId,
+            targetChainId: lock.targetChainId,
+            ...fields,
+            state,
+            updatedAt: new Date().toISOString()
+        };
+
+        if (this.file) {
+            this.file.update(records => { records[lock.lockId] = record; });
+        } else {
+            this.memory[lock.lockId] = record;
+        }
+        return record;
+    }
+}
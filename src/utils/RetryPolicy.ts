@@ -0,0 +1,119 @@
+import { EventEmitter } from 'events';
+import { RetryConfig } from '../admin-panel/types/config';
+import { BridgeError, BridgeErrorType } from './BridgeErrors';
+
+// transient: retrying can succeed; permanent: it never will; operator: someone has to intervene first
+export type FailureClass = 'transient' | 'permanent' | 'operator';
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+    maxAttempts: 5,
+    initialDelay: 1000,
+    maxDelay: 30000,
+    backoffFactor: 2
+};
+
+const BRIDGE_ERROR_CLASSES: Partial<Record<BridgeErrorType, FailureClass>> = {
+    [BridgeErrorType.InvalidNonce]: 'transient',
+    [BridgeErrorType.CrossChainRequestFailed]: 'transient',
+    [BridgeErrorType.BridgePaused]: 'operator',
+    [BridgeErrorType.FeatureNotEnabled]: 'operator',
+    [BridgeErrorType.InsufficientBalance]: 'operator',
+    [BridgeErrorType.InsufficientSignatures]: 'operator',
+    [BridgeErrorType.TokenNotRegistered]: 'operator',
+    [BridgeErrorType.CollectionNotRegistered]: 'operator',
+    [BridgeErrorType.VaultNotRegistered]: 'operator',
+    [BridgeErrorType.MaxTransferAmountExceeded]: 'operator',
+    [BridgeErrorType.ExcessiveAmount]: 'operator',
+    [BridgeErrorType.FeeCapReached]: 'operator'
+};
+
+// ethers v5 error codes
+const PROVIDER_ERROR_CLASSES: Record<string, FailureClass> = {
+    TIMEOUT: 'transient',
+    NETWORK_ERROR: 'transient',
+    SERVER_ERROR: 'transient',
+    NONCE_EXPIRED: 'transient',
+    REPLACEMENT_UNDERPRICED: 'transient',
+    TRANSACTION_REPLACED: 'transient',
+    INSUFFICIENT_FUNDS: 'operator',
+    CALL_EXCEPTION: 'permanent',
+    UNPREDICTABLE_GAS_LIMIT: 'permanent',
+    INVALID_ARGUMENT: 'permanent',
+    UNSUPPORTED_OPERATION: 'permanent'
+};
+
+// Node and transport messages that arrive without a useful code
+const MESSAGE_CLASSES: [RegExp, FailureClass][] = [
+    [/nonce too low|already known|underpriced|timeout|timed out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|rate limit|429/i, 'transient'],
+    [/insufficient funds/i, 'operator']
+];
+
+export function classifyError(error: any): FailureClass {
+    if (error instanceof BridgeError) {
+        return BRIDGE_ERROR_CLASSES[error.type] ?? 'permanent';
+    }
+
+    // Providers nest the underlying RPC error a varying number of levels deep
+    let current = error;
+    for (let depth = 0; current && depth < 5; depth++) {
+        const byCode = typeof current.code === 'string' ? PROVIDER_ERROR_CLASSES[current.code] : undefined;
+        if (byCode && byCode !== 'permanent') return byCode;
+
+        const message = typeof current.message === 'string' ? current.message : '';
+        const byMessage = MESSAGE_CLASSES.find(([pattern]) => pattern.test(message));
+        if (byMessage) return byMessage[1];
+
+        if (byCode) return byCode;
+        current = current.error;
+    }
+    return 'permanent';
+}
+
+/**
+ * Runs an operation under a RetryConfig: transient failures are retried with
+ * exponential backoff and jitter, anything else is rethrown immediately.
+ */
+export class RetryPolicy extends EventEmitter {
+    private readonly config: RetryConfig;
+    private readonly random: () => number;
+    private readonly sleep: (ms: number) => Promise<void>;
+
+    constructor(
+        config: RetryConfig = DEFAULT_RETRY_CONFIG,
+        random: () => number = Math.random,
+        sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+    ) {
+        super();
+        if (config.maxAttempts < 1) throw new Error('maxAttempts must be at least 1');
+        this.config = config;
+        this.random = random;
+        this.sleep = sleep;
+    }
+
+    // Delay before retry number `attempt` (1-based): half fixed, half random
+    public delayFor(attempt: number): number {
+        const { initialDelay, maxDelay, backoffFactor } = this.config;
+        const base = Math.min(maxDelay, initialDelay * Math.pow(backoffFactor, attempt - 1));
+        return Math.round(base / 2 + this.random() * base / 2);
+    }
+
+    public async execute<T>(operation: () => Promise<T>, label: string = 'operation'): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await operation();
+            } catch (error) {
+                const failure = classifyError(error);
+                if (failure !== 'transient' || attempt >= this.config.maxAttempts) {
+                    if (failure === 'operator') {
+                        this.emit('operatorAction', { label, attempt, error });
+                    }
+                    throw error;
+                }
+
+                const delay = this.delayFor(attempt);
+                this.emit('retry', { label, attempt, delay, error });
+                await this.sleep(delay);
+            }
+        }
+    }
+}
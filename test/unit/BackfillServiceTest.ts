@@ -0,0 +1,186 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { ChainConfig } from "../../src/admin-panel/types/config";
+import { BackfillService } from "../../src/services/BackfillService";
+import { BridgeService } from "../../src/services/BridgeService";
+import { lockEventInterface } from "../../src/services/LockEvents";
+import { RelayerService } from "../../src/services/RelayerService";
+import { MessageDeliveryStore } from "../../src/utils/MessageDeliveryStore";
+import { MonitoringService } from "../../src/utils/MonitoringService";
+import { RelayHistory } from "../../src/utils/RelayHistory";
+import { RetryPolicy } from "../../src/utils/RetryPolicy";
+
+// Serves a fixed set of logs and records each requested block range
+class BackfillStubProvider {
+    public ranges: [number, number][] = [];
+    public head = 1000;
+    // Block number -> canonical hash, where it differs from the one the logs carry
+    public canonical = new Map<number, string>();
+
+    constructor(private readonly logs: ethers.providers.Log[]) {}
+
+    async getBlockNumber(): Promise<number> {
+        return this.head;
+    }
+
+    async getBlock(blockNumber: number): Promise<{ hash: string }> {
+        return { hash: this.canonical.get(blockNumber) ?? ethers.utils.id(`block-${blockNumber}`) };
+    }
+
+    async getLogs(filter: ethers.providers.Filter): Promise<ethers.providers.Log[]> {
+        const from = Number(filter.fromBlock);
+        const to = Number(filter.toBlock);
+        const topics = (filter.topics?.[0] ?? []) as string[];
+        this.ranges.push([from, to]);
+        return this.logs.filter(log =>
+            log.blockNumber >= from && log.blockNumber <= to && topics.includes(log.topics[0])
+        );
+    }
+}
+
+describe("BackfillService", function () {
+    const token = ethers.Wallet.createRandom().address;
+    const sender = ethers.Wallet.createRandom().address;
+    const recipient = ethers.Wallet.createRandom().address;
+
+    const config: ChainConfig = {
+        bridgeAddress: ethers.constants.AddressZero,
+        governanceAddress: ethers.constants.AddressZero,
+        deploymentBlock: 0,
+        syncBatchSize: 100,
+        maxBlockRange: 10
+    };
+
+    function lockLog(name: string, blockNumber: number, targetChainId = 2): ethers.providers.Log {
+        const encoded = lockEventInterface.encodeEventLog(
+            lockEventInterface.getEvent("TokensLocked"),
+            [ethers.utils.id(name), token, sender, 100, targetChainId, recipient]
+        );
+        return {
+            ...encoded,
+            address: ethers.constants.AddressZero,
+            blockNumber,
+            blockHash: ethers.utils.id(`block-${blockNumber}`),
+            transactionHash: ethers.utils.id(`tx-${name}`),
+            transactionIndex: 0,
+            logIndex: 0,
+            removed: false
+        };
+    }
+
+    function createBackfill(logs: ethers.providers.Log[], processedOnChain: string[] = [], requiredConfirmations = 0) {
+        const unlocks: any[][] = [];
+        const provider = new ethers.providers.JsonRpcProvider("http://127.0.0.1:8545");
+        const history = new RelayHistory();
+        const target = {
+            isLockProcessed: async (id: string) => processedOnChain.includes(id),
+            unlockTokens: async (...args: any[]) => {
+                unlocks.push(args);
+                return { lockId: args[3], txHash: ethers.utils.id("unlock-tx"), alreadyProcessed: false };
+            }
+        } as unknown as BridgeService;
+
+        const relayer = new RelayerService(
+            { getProvider: () => provider },
+            new Map([[2, target]]),
+            new MonitoringService(provider, ethers.constants.AddressZero),
+            undefined,
+            history,
+            new RetryPolicy(),
+            new MessageDeliveryStore()
+        );
+        const stub = new BackfillStubProvider(logs);
+        const backfill = new BackfillService(stub as unknown as ethers.providers.Provider, config, relayer, requiredConfirmations);
+        return { backfill, stub, unlocks, history };
+    }
+
+    it("Should scan the range in windows of the chain's maximum block range", async function () {
+        const { backfill, stub } = createBackfill([]);
+
+        await backfill.run({ chainId: 1, fromBlock: 5, toBlock: 27 });
+
+        expect(stub.ranges).to.deep.equal([[5, 14], [15, 24], [25, 27]]);
+    });
+
+    it("Should report new, already processed and skipped transfers", async function () {
+        const { backfill, unlocks } = createBackfill(
+            [lockLog("new", 12), lockLog("done", 8), lockLog("orphan", 20, 999)],
+            [ethers.utils.id("done")]
+        );
+
+        const report = await backfill.run({ chainId: 1, fromBlock: 0, toBlock: 30 });
+
+        expect(report.scanned).to.equal(3);
+        expect(report.relayed.map(entry => entry.id)).to.deep.equal([ethers.utils.id("new")]);
+        expect(report.alreadyProcessed.map(entry => entry.outcome)).to.deep.equal(['alreadyProcessed']);
+        expect(report.failed.map(entry => entry.id)).to.deep.equal([ethers.utils.id("orphan")]);
+        expect(unlocks).to.have.length(1);
+    });
+
+    it("Should not resubmit transfers the relayer already handled", async function () {
+        const { backfill, unlocks } = createBackfill([lockLog("new", 12)]);
+
+        await backfill.run({ chainId: 1, fromBlock: 0, toBlock: 30 });
+        const report = await backfill.run({ chainId: 1, fromBlock: 0, toBlock: 30 });
+
+        expect(unlocks).to.have.length(1);
+        expect(report.relayed).to.be.empty;
+        expect(report.alreadyProcessed.map(entry => entry.outcome)).to.deep.equal(['alreadyRelayed']);
+    });
+
+    it("Should change nothing in a dry run", async function () {
+        const { backfill, unlocks, history } = createBackfill([lockLog("new", 12)]);
+
+        const report = await backfill.run({ chainId: 1, fromBlock: 0, toBlock: 30, dryRun: true });
+
+        expect(report.dryRun).to.be.true;
+        expect(report.relayed.map(entry => entry.id)).to.deep.equal([ethers.utils.id("new")]);
+        expect(unlocks).to.be.empty;
+        expect(history.list()).to.be.empty;
+    });
+
+    it("Should only replay blocks with the required confirmations", async function () {
+        const { backfill, stub, unlocks } = createBackfill([lockLog("confirmed", 12), lockLog("recent", 26)], [], 5);
+        stub.head = 28;
+
+        const report = await backfill.run({ chainId: 1, fromBlock: 5, toBlock: 40 });
+
+        expect(report.toBlock).to.equal(24);
+        expect(stub.ranges).to.deep.equal([[5, 14], [15, 24]]);
+        expect(report.relayed.map(entry => entry.id)).to.deep.equal([ethers.utils.id("confirmed")]);
+        expect(unlocks).to.have.length(1);
+    });
+
+    it("Should stop at logs from blocks that are no longer canonical", async function () {
+        const { backfill, stub, unlocks } = createBackfill([lockLog("kept", 12), lockLog("orphaned", 14)]);
+        stub.canonical.set(14, ethers.utils.id("replacement-14"));
+
+        try {
+            await backfill.run({ chainId: 1, fromBlock: 0, toBlock: 30 });
+            expect.fail("Expected the backfill to stop");
+        } catch (error) {
+            expect((error as Error).message).to.contain("reorganized at block 14");
+        }
+        expect(unlocks).to.have.length(1);
+    });
+
+    it("Should reject unknown events, inverted ranges and unconfirmed blocks", async function () {
+        const { backfill, stub } = createBackfill([], [], 12);
+        stub.head = 50;
+
+        const invalid = [
+            { options: { chainId: 1, fromBlock: 0, toBlock: 10, events: ["Bogus"] }, message: "Unknown events: Bogus" },
+            { options: { chainId: 1, fromBlock: 10, toBlock: 0 }, message: "Invalid block range" },
+            { options: { chainId: 1, fromBlock: 40, toBlock: 50 }, message: "does not have 12 confirmations" }
+        ];
+
+        for (const { options, message } of invalid) {
+            try {
+                await backfill.run(options);
+                expect.fail("Expected the backfill to be rejected");
+            } catch (error) {
+                expect((error as Error).message).to.contain(message);
+            }
+        }
+    });
+});
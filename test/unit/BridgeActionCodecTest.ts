@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { BridgeActionCodec } from "../../src/services/BridgeActionCodec";
+import { BridgeAction, BridgeRole } from "../../src/admin-panel/types/BridgeAdmin";
+import { BridgeError, BridgeErrorType } from "../../src/utils/BridgeErrors";
+
+describe("BridgeActionCodec", function () {
+    const bridgeAddress = ethers.Wallet.createRandom().address;
+    const governanceAddress = ethers.Wallet.createRandom().address;
+    const account = ethers.Wallet.createRandom().address;
+    const codec = new BridgeActionCodec(bridgeAddress, governanceAddress);
+
+    const actions: BridgeAction[] = [
+        { type: 'TOGGLE_FEATURE', params: { feature: "CROSS_CHAIN_MIRROR", enabled: true }, description: "" },
+        { type: 'UPDATE_CHAIN', params: { chainId: 137, supported: false }, description: "" },
+        { type: 'UPDATE_ROLE', params: { account, role: BridgeRole.ADMIN }, description: "" },
+        { type: 'UPDATE_ROLE', params: { account, role: BridgeRole.NONE }, description: "" },
+        { type: 'UPDATE_THRESHOLD', params: { threshold: 3 }, description: "" }
+    ];
+
+    describe("Encoding", function () {
+        it("Should produce the same calldata tests build by hand", function () {
+            const bridgeInterface = new ethers.utils.Interface(["function toggleFeature(string feature, bool enabled)"]);
+            const call = codec.encode(actions[0]);
+
+            expect(call.target).to.equal(bridgeAddress);
+            expect(call.value.isZero()).to.be.true;
+            expect(call.data).to.equal(bridgeInterface.encodeFunctionData("toggleFeature", ["CROSS_CHAIN_MIRROR", true]));
+        });
+
+        it("Should target governance for role and threshold updates", function () {
+            expect(codec.encode(actions[2]).target).to.equal(governanceAddress);
+            expect(codec.encode(actions[4]).target).to.equal(governanceAddress);
+        });
+
+        it("Should reject unknown roles", function () {
+            for (const role of [9, "ADMIN"]) {
+                try {
+                    codec.encode({ type: 'UPDATE_ROLE', params: { account, role: role as BridgeRole }, description: "" });
+                    expect.fail(`Expected role ${role} to be rejected`);
+                } catch (error) {
+                    expect(error).to.be.instanceOf(BridgeError);
+                    expect((error as BridgeError).type).to.equal(BridgeErrorType.InvalidRole);
+                }
+            }
+        });
+    });
+
+    describe("Decoding", function () {
+        it("Should round-trip every action type", function () {
+            for (const action of actions) {
+                const decoded = codec.decode(codec.encode(action));
+
+                expect(decoded.type).to.equal(action.type);
+                expect(decoded.params).to.deep.equal(action.params);
+                expect(decoded.description).to.equal(BridgeActionCodec.describe(action));
+            }
+        });
+
+        it("Should describe actions for reviewers", function () {
+            expect(codec.decode(codec.encode(actions[0])).description).to.equal('Enable feature "CROSS_CHAIN_MIRROR"');
+            expect(codec.decode(codec.encode(actions[2])).description).to.equal(`Assign ADMIN role to ${account}`);
+            expect(codec.decode(codec.encode(actions[4])).description).to.equal("Set signature threshold to 3");
+        });
+
+        it("Should reject calls to unrelated contracts", function () {
+            const call = codec.encode(actions[0]);
+
+            try {
+                codec.decode({ ...call, target: account });
+                expect.fail("Expected decode to throw");
+            } catch (error) {
+                expect((error as BridgeError).type).to.equal(BridgeErrorType.InvalidDestination);
+            }
+        });
+
+        it("Should reject out-of-range chain IDs and thresholds", function () {
+            const bridgeInterface = new ethers.utils.Interface(["function updateSupportedChain(uint256 chainId, bool supported)"]);
+            const governanceInterface = new ethers.utils.Interface(["function updateThreshold(uint256 newThreshold)"]);
+            const calls = [
+                { target: bridgeAddress, data: bridgeInterface.encodeFunctionData("updateSupportedChain", [ethers.constants.MaxUint256, true]) },
+                { target: governanceAddress, data: governanceInterface.encodeFunctionData("updateThreshold", [ethers.BigNumber.from(2).pow(53)]) }
+            ];
+
+            for (const call of calls) {
+                try {
+                    codec.decode(call);
+                    expect.fail("Expected decode to throw");
+                } catch (error) {
+                    expect(error).to.be.instanceOf(BridgeError);
+                    expect((error as BridgeError).type).to.equal(BridgeErrorType.InvalidData);
+                }
+            }
+        });
+
+        it("Should reject unknown calldata", function () {
+            try {
+                codec.decode({ target: bridgeAddress, data: "0xdeadbeef" });
+                expect.fail("Expected decode to throw");
+            } catch (error) {
+                expect((error as BridgeError).type).to.equal(BridgeErrorType.InvalidData);
+            }
+        });
+    });
+});
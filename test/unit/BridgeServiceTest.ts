@@ -0,0 +1,853 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { BridgeService } from "../../src/services/BridgeService";
+import { BridgeError, BridgeErrorType } from "../../src/utils/BridgeErrors";
+import { MonitoringService } from "../../src/utils/MonitoringService";
+import { BridgeRole } from "../../src/admin-panel/types/BridgeAdmin";
+import { BRIDGE_LOCK_ABI, BRIDGE_MIRROR_ABI, ERC20_ABI, ERC4626_ABI, ERC721_ABI, ERC777_ABI, GOVERNANCE_ABI } from "../../src/services/abis";
+import { buildClaimProof, encodeClaimProof } from "../../src/services/ClaimProofs";
+import { OffChainProposal, OffChainSignatureCollector } from "../../src/services/OffChainSignatures";
+
+// Serves a single-block chain whose bridge holds one registered asset
+class QuoteStubProvider extends ethers.providers.BaseProvider {
+    readonly logFilters: ethers.providers.Filter[] = [];
+
+    // assetInfoResult "0x" stands for a deployment without getAssetInfo
+    constructor(
+        private readonly assetInfoResult: string,
+        private readonly logs: any[] = [],
+        private readonly estimateReverts = false
+    ) {
+        super({ chainId: 31337, name: "stub" });
+    }
+
+    async detectNetwork(): Promise<ethers.providers.Network> {
+        return { chainId: 31337, name: "stub" };
+    }
+
+    async perform(method: string, params: any): Promise<any> {
+        switch (method) {
+            case "call":
+                return this.assetInfoResult;
+            case "getBlockNumber":
+                return 100;
+            case "getBlock":
+                return {
+                    hash: ethers.utils.hexZeroPad("0x01", 32),
+                    parentHash: ethers.constants.HashZero,
+                    number: 100,
+                    timestamp: 1_700_000_000,
+                    nonce: "0x0000000000000000",
+                    difficulty: 0,
+                    gasLimit: "0x1c9c380",
+                    gasUsed: "0x0",
+                    miner: ethers.constants.AddressZero,
+                    extraData: "0x",
+                    transactions: []
+                };
+            case "getLogs":
+                this.logFilters.push(params.filter);
+                return this.logs;
+            case "estimateGas":
+                if (this.estimateReverts) throw new Error("execution reverted");
+                return "0x5208";
+            case "getGasPrice":
+                return "0x3b9aca00";
+        }
+        throw new Error(`Unsupported stub call: ${method}`);
+    }
+}
+
+// Answers eth_call with fixed per-function results and records every call made
+class ContractStubProvider extends ethers.providers.BaseProvider {
+    readonly calls: { to: string; name: string; args: ethers.utils.Result }[] = [];
+
+    constructor(private readonly contractInterface: ethers.utils.Interface, readonly results: Record<string, any[]>) {
+        super({ chainId: 31337, name: "stub" });
+    }
+
+    async detectNetwork(): Promise<ethers.providers.Network> {
+        return { chainId: 31337, name: "stub" };
+    }
+
+    async perform(method: string, params: any): Promise<any> {
+        if (method !== "call") {
+            throw new Error(`Unsupported stub call: ${method}`);
+        }
+        const { to, data } = params.transaction;
+        const fragment = this.contractInterface.getFunction(data.slice(0, 10));
+        this.calls.push({ to, name: fragment.name, args: this.contractInterface.decodeFunctionData(fragment, data) });
+
+        const result = this.results[fragment.name];
+        if (!result) {
+            throw new Error(`No stub result for ${fragment.name}`);
+        }
+        return this.contractInterface.encodeFunctionResult(fragment, result);
+    }
+}
+
+// Adds governance event logs and the transactions and blocks they point at to ContractStubProvider
+class GovernanceStubProvider extends ContractStubProvider {
+    constructor(
+        contractInterface: ethers.utils.Interface,
+        results: Record<string, any[]>,
+        private readonly logs: ethers.providers.Log[],
+        private readonly transactions: Record<string, { to: string; data: string }>
+    ) {
+        super(contractInterface, results);
+    }
+
+    async perform(method: string, params: any): Promise<any> {
+        switch (method) {
+            case "getLogs": {
+                const [topic, txHash] = params.filter.topics;
+                return this.logs.filter(log => log.topics[0] === topic && (!txHash || log.topics[1] === txHash));
+            }
+            case "getTransaction":
+                return {
+                    hash: params.transactionHash,
+                    from: ethers.constants.AddressZero,
+                    nonce: 0,
+                    gasLimit: "0x5208",
+                    gasPrice: "0x1",
+                    value: "0x0",
+                    chainId: 31337,
+                    ...this.transactions[params.transactionHash]
+                };
+            case "getBlock":
+                return {
+                    hash: params.blockHash,
+                    parentHash: ethers.constants.HashZero,
+                    number: 10,
+                    timestamp: ethers.BigNumber.from(params.blockHash).mod(1000).toNumber(),
+                    difficulty: 0,
+                    gasLimit: "0x1c9c380",
+                    gasUsed: "0x0",
+                    miner: ethers.constants.AddressZero,
+                    extraData: "0x",
+                    transactions: []
+                };
+            case "getBlockNumber":
+                return 10;
+        }
+        return super.perform(method, params);
+    }
+}
+
+// Records every transaction it is asked to send and mines it with the logs `logsFor` returns
+class RecordingSigner extends ethers.VoidSigner {
+    readonly sent: ethers.providers.TransactionRequest[] = [];
+
+    constructor(provider: ethers.providers.Provider, private readonly logsFor: (tx: ethers.providers.TransactionRequest) => ethers.providers.Log[] = () => []) {
+        super(ethers.Wallet.createRandom().address, provider);
+    }
+
+    async sendTransaction(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<ethers.providers.TransactionResponse> {
+        const request = await ethers.utils.resolveProperties(transaction);
+        this.sent.push(request);
+        const hash = ethers.utils.id(`tx-${this.sent.length}`);
+        const logs = this.logsFor(request).map(log => ({ ...log, transactionHash: hash }));
+        return {
+            hash,
+            wait: async () => ({ transactionHash: hash, logs, status: 1 })
+        } as unknown as ethers.providers.TransactionResponse;
+    }
+}
+
+describe("BridgeService", function () {
+    const bridgeAddress = ethers.Wallet.createRandom().address;
+    const governanceAddress = ethers.Wallet.createRandom().address;
+    const bridgeInterface = new ethers.utils.Interface([
+        "function proposeTransaction(address target, uint256 targetChainId, bytes data)",
+        "function executeTransaction(bytes32 txHash)"
+    ]);
+    const governanceInterface = new ethers.utils.Interface([
+        "function signTransaction(bytes32 txHash)",
+        "function toggleFeature(string feature, bool enabled)"
+    ]);
+    const lockInterface = new ethers.utils.Interface(BRIDGE_LOCK_ABI);
+
+    let provider: ethers.providers.Provider;
+    let monitoringService: MonitoringService;
+
+    beforeEach(function () {
+        provider = new ethers.providers.JsonRpcProvider("http://127.0.0.1:8545");
+        monitoringService = new MonitoringService(provider, bridgeAddress);
+    });
+
+    function createService(signers = {}): BridgeService {
+        return new BridgeService(
+            provider,
+            bridgeAddress,
+            governanceAddress,
+            bridgeInterface,
+            governanceInterface,
+            monitoringService,
+            signers
+        );
+    }
+
+    async function expectUnauthorized(promise: Promise<unknown>, requiredRole: BridgeRole) {
+        try {
+            await promise;
+            expect.fail("Expected call to be rejected");
+        } catch (error) {
+            expect(error).to.be.instanceOf(BridgeError);
+            expect((error as BridgeError).type).to.equal(BridgeErrorType.Unauthorized);
+            expect((error as BridgeError).details?.requiredRole).to.equal(requiredRole);
+        }
+    }
+
+    // A service whose operator signer records sends and whose token reads are answered by `results`
+    function createStubService(tokenAbi: string[], results: Record<string, any[]>, logsFor?: (tx: ethers.providers.TransactionRequest) => ethers.providers.Log[]) {
+        const stub = new ContractStubProvider(new ethers.utils.Interface(tokenAbi), results);
+        const signer = new RecordingSigner(stub, logsFor);
+        const service = new BridgeService(
+            stub,
+            bridgeAddress,
+            governanceAddress,
+            lockInterface,
+            governanceInterface,
+            monitoringService,
+            { [BridgeRole.OPERATOR]: signer }
+        );
+        return { stub, signer, service };
+    }
+
+    // Mined log of `eventName` emitted by the bridge
+    function bridgeLog(eventInterface: ethers.utils.Interface, eventName: string, args: any[]): ethers.providers.Log {
+        return {
+            ...eventInterface.encodeEventLog(eventInterface.getEvent(eventName), args),
+            address: bridgeAddress,
+            blockNumber: 10,
+            blockHash: ethers.utils.id("block-10"),
+            transactionHash: ethers.constants.HashZero,
+            transactionIndex: 0,
+            logIndex: 0,
+            removed: false
+        };
+    }
+
+    // Name of the function each transaction called on `contractInterface`
+    function sentCalls(transactions: ethers.providers.TransactionRequest[], contractInterface: ethers.utils.Interface): string[] {
+        return transactions.map(tx => contractInterface.parseTransaction({ data: tx.data as string }).name);
+    }
+
+    async function expectBridgeError(promise: Promise<unknown>, type: BridgeErrorType): Promise<BridgeError> {
+        try {
+            await promise;
+        } catch (error) {
+            expect(error).to.be.instanceOf(BridgeError);
+            expect((error as BridgeError).type).to.equal(type);
+            return error as BridgeError;
+        }
+        return expect.fail("Expected call to be rejected");
+    }
+
+    describe("Signer routing", function () {
+        it("Should reject every write when no signers are configured", async function () {
+            const service = createService();
+
+            await expectUnauthorized(service.proposeTransaction(bridgeAddress, 2, "0x"), BridgeRole.OPERATOR);
+            await expectUnauthorized(service.signTransaction(ethers.constants.HashZero), BridgeRole.ADMIN);
+            await expectUnauthorized(service.executeTransaction(ethers.constants.HashZero), BridgeRole.OPERATOR);
+            await expectUnauthorized(service.toggleFeature("TEST_FEATURE", true), BridgeRole.ADMIN);
+            await expectUnauthorized(
+                service.proposeAction({ type: 'UPDATE_THRESHOLD', params: { threshold: 2 }, description: "" }),
+                BridgeRole.OPERATOR
+            );
+        });
+
+        it("Should require an operator signer for token locking", async function () {
+            const service = createService({ [BridgeRole.ADMIN]: ethers.Wallet.createRandom() });
+            const token = ethers.Wallet.createRandom().address;
+
+            await expectUnauthorized(service.registerToken(token), BridgeRole.OPERATOR);
+            await expectUnauthorized(service.lockTokens(token, 100, 2, token), BridgeRole.OPERATOR);
+            await expectUnauthorized(
+                service.unlockTokens(token, 100, token, ethers.constants.HashZero),
+                BridgeRole.OPERATOR
+            );
+        });
+
+        it("Should not fall back to a signer of another role", async function () {
+            const service = createService({ [BridgeRole.OPERATOR]: ethers.Wallet.createRandom() });
+
+            expect(service.hasSigner(BridgeRole.OPERATOR)).to.be.true;
+            expect(service.hasSigner(BridgeRole.ADMIN)).to.be.false;
+            await expectUnauthorized(service.toggleFeature("TEST_FEATURE", true), BridgeRole.ADMIN);
+        });
+
+        it("Should refuse a signer for BridgeRole.NONE", function () {
+            const service = createService();
+
+            expect(() => service.setSigner(BridgeRole.NONE, ethers.Wallet.createRandom())).to.throw();
+        });
+    });
+
+    describe("Token locking", function () {
+        const token = ethers.Wallet.createRandom().address;
+        const recipient = ethers.Wallet.createRandom().address;
+        const lockId = ethers.utils.id("lock-erc20");
+        const tokenInterface = new ethers.utils.Interface(ERC20_ABI);
+
+        function createLockService(allowance: number, balance = 1000) {
+            return createStubService(ERC20_ABI, { balanceOf: [balance], allowance: [allowance] }, tx =>
+                tx.to === bridgeAddress
+                    ? [bridgeLog(lockInterface, "TokensLocked", [lockId, token, bridgeAddress, 100, 2, recipient])]
+                    : []
+            );
+        }
+
+        it("Should approve the bridge before locking when the allowance is short", async function () {
+            const { stub, signer, service } = createLockService(50);
+
+            await service.lockTokens(token, 100, 2, recipient);
+
+            expect(stub.calls.find(call => call.name === "allowance")?.args).to.deep.equal([signer.address, bridgeAddress]);
+            expect(signer.sent.map(tx => tx.to)).to.deep.equal([token, bridgeAddress]);
+            expect(tokenInterface.decodeFunctionData("approve", signer.sent[0].data as string)).to.deep.equal([bridgeAddress, ethers.BigNumber.from(100)]);
+            expect(sentCalls(signer.sent.slice(1), lockInterface)).to.deep.equal(["lockTokens"]);
+        });
+
+        it("Should skip the approval when the allowance already covers the amount", async function () {
+            const { signer, service } = createLockService(100);
+
+            await service.lockTokens(token, 100, 2, recipient);
+
+            expect(sentCalls(signer.sent, lockInterface)).to.deep.equal(["lockTokens"]);
+        });
+
+        it("Should refuse to lock more than the owner holds", async function () {
+            const { signer, service } = createLockService(1000, 99);
+
+            await expectBridgeError(service.lockTokens(token, 100, 2, recipient), BridgeErrorType.InsufficientBalance);
+            expect(signer.sent).to.be.empty;
+        });
+
+        it("Should decode the TokensLocked event and track the lock", async function () {
+            const { service } = createLockService(100);
+
+            const result = await service.lockTokens(token, 100, 2, recipient);
+
+            expect(result).to.deep.equal({ lockId, amount: ethers.BigNumber.from(100), targetChainId: 2, recipient });
+            expect(monitoringService.getTransaction(lockId)).to.include({ sourceChainId: 31337, targetChainId: 2, status: 'pending' });
+        });
+    });
+
+    describe("Unlocking", function () {
+        // Rejects every transaction with the given revert data, as a node does for a failed estimate
+        class RevertingSigner extends ethers.VoidSigner {
+            constructor(private readonly revertData: string) {
+                super(ethers.constants.AddressZero, provider);
+            }
+
+            async sendTransaction(): Promise<ethers.providers.TransactionResponse> {
+                throw { code: "UNPREDICTABLE_GAS_LIMIT", error: { data: this.revertData } };
+            }
+        }
+
+        function createUnlockService(revertData: string): BridgeService {
+            return new BridgeService(
+                provider,
+                bridgeAddress,
+                governanceAddress,
+                lockInterface,
+                governanceInterface,
+                monitoringService,
+                { [BridgeRole.OPERATOR]: new RevertingSigner(revertData) }
+            );
+        }
+
+        it("Should treat an already-processed revert as a completed unlock", async function () {
+            const lockId = ethers.utils.id("lock-1");
+            const service = createUnlockService(lockInterface.encodeErrorResult("LockAlreadyProcessed", [lockId]));
+            monitoringService.trackTransaction(lockId, 1, 2);
+
+            const result = await service.unlockTokens(bridgeAddress, 100, bridgeAddress, lockId);
+
+            expect(result).to.deep.equal({ lockId, alreadyProcessed: true });
+            expect(monitoringService.getTransaction(lockId)?.status).to.equal('confirmed');
+        });
+
+        it("Should rethrow other unlock reverts and record the failure", async function () {
+            const lockId = ethers.utils.id("lock-2");
+            const service = createUnlockService("0xdeadbeef");
+            monitoringService.trackTransaction(lockId, 1, 2);
+
+            try {
+                await service.unlockTokens(bridgeAddress, 100, bridgeAddress, lockId);
+                expect.fail("Expected call to be rejected");
+            } catch (error) {
+                expect(error).to.not.be.instanceOf(BridgeError);
+            }
+            expect(monitoringService.getTransaction(lockId)?.status).to.equal('failed');
+        });
+    });
+
+    describe("NFT bridging", function () {
+        it("Should reject mismatched ERC1155 batch arrays before sending", async function () {
+            const service = createService({ [BridgeRole.OPERATOR]: ethers.Wallet.createRandom() });
+            const collection = ethers.Wallet.createRandom().address;
+
+            try {
+                await service.lockNFT1155Batch(collection, [1, 2, 3], [5, 10], 2, collection);
+                expect.fail("Expected call to be rejected");
+            } catch (error) {
+                expect(error).to.be.instanceOf(BridgeError);
+                expect((error as BridgeError).type).to.equal(BridgeErrorType.InvalidArrayLength);
+            }
+        });
+
+        describe("ERC721 ownership and approval", function () {
+            const collection = ethers.Wallet.createRandom().address;
+            const recipient = ethers.Wallet.createRandom().address;
+            const lockId = ethers.utils.id("lock-nft");
+            const collectionInterface = new ethers.utils.Interface(ERC721_ABI);
+
+            function createNFTService(results: Record<string, any[]>) {
+                return createStubService(ERC721_ABI, results, tx =>
+                    tx.to === bridgeAddress
+                        ? [bridgeLog(lockInterface, "NFTLocked", [lockId, collection, bridgeAddress, 7, 2, recipient])]
+                        : []
+                );
+            }
+
+            it("Should refuse tokens the signer does not own", async function () {
+                const owner = ethers.Wallet.createRandom().address;
+                const { signer, service } = createNFTService({ ownerOf: [owner] });
+
+                const error = await expectBridgeError(service.lockNFT(collection, 7, 2, recipient), BridgeErrorType.InsufficientBalance);
+
+                expect(error.message).to.include(`owned by ${owner}`);
+                expect(signer.sent).to.be.empty;
+            });
+
+            it("Should lock without approving when the bridge is already an operator", async function () {
+                const { stub, signer, service } = createNFTService({ isApprovedForAll: [true] });
+                stub.results.ownerOf = [signer.address];
+
+                const result = await service.lockNFT(collection, 7, 2, recipient);
+
+                expect(stub.calls.find(call => call.name === "isApprovedForAll")?.args).to.deep.equal([signer.address, bridgeAddress]);
+                expect(sentCalls(signer.sent, lockInterface)).to.deep.equal(["lockNFT"]);
+                expect(result).to.deep.include({ lockId, collection, targetChainId: 2, recipient });
+                expect(monitoringService.getTransaction(lockId)?.status).to.equal('pending');
+            });
+
+            it("Should approve the single token when the bridge is not an operator", async function () {
+                const { stub, signer, service } = createNFTService({
+                    isApprovedForAll: [false],
+                    getApproved: [ethers.constants.AddressZero]
+                });
+                stub.results.ownerOf = [signer.address];
+
+                await service.lockNFT(collection, 7, 2, recipient);
+
+                expect(signer.sent.map(tx => tx.to)).to.deep.equal([collection, bridgeAddress]);
+                expect(collectionInterface.decodeFunctionData("approve", signer.sent[0].data as string))
+                    .to.deep.equal([bridgeAddress, ethers.BigNumber.from(7)]);
+            });
+        });
+
+        it("Should require an operator signer for NFT locks", async function () {
+            const service = createService();
+            const collection = ethers.Wallet.createRandom().address;
+
+            await expectUnauthorized(service.lockNFT(collection, 1, 2, collection), BridgeRole.OPERATOR);
+            await expectUnauthorized(service.lockNFT1155(collection, 1, 5, 2, collection), BridgeRole.OPERATOR);
+        });
+    });
+
+    describe("Vault bridging", function () {
+        const vaultInterface = new ethers.utils.Interface([
+            "error VaultNotRegistered(address vault)",
+            "error InsufficientShares(uint256 available, uint256 required)"
+        ]);
+
+        it("Should surface vault reverts as matching BridgeError types", function () {
+            const vault = ethers.Wallet.createRandom().address;
+            const revert = {
+                code: "UNPREDICTABLE_GAS_LIMIT",
+                error: { data: vaultInterface.encodeErrorResult("VaultNotRegistered", [vault]) }
+            };
+
+            const error = BridgeError.fromContractError(revert, vaultInterface);
+
+            expect(error).to.be.instanceOf(BridgeError);
+            expect(error!.type).to.equal(BridgeErrorType.VaultNotRegistered);
+            expect(error!.message).to.include(vault);
+        });
+
+        it("Should leave unrelated failures undecoded", function () {
+            expect(BridgeError.fromContractError(new Error("timeout"), vaultInterface)).to.be.undefined;
+        });
+
+        it("Should quote shares with previewDeposit and their value with convertToAssets", async function () {
+            const vault = ethers.Wallet.createRandom().address;
+            const asset = ethers.Wallet.createRandom().address;
+            const { stub, service } = createStubService(ERC4626_ABI, {
+                asset: [asset],
+                previewDeposit: [95],
+                convertToAssets: [99]
+            });
+
+            const quote = await service.quoteVaultDeposit(vault, 100);
+
+            expect(quote).to.deep.equal({
+                vault,
+                asset,
+                assets: ethers.BigNumber.from(100),
+                shares: ethers.BigNumber.from(95),
+                redeemableAssets: ethers.BigNumber.from(99)
+            });
+            expect(stub.calls.map(call => [call.name, call.args.map(String)])).to.deep.equal([
+                ["asset", []],
+                ["previewDeposit", ["100"]],
+                ["convertToAssets", ["95"]]
+            ]);
+        });
+
+        it("Should reject vaults that quote zero shares or are not ERC4626", async function () {
+            const vault = ethers.Wallet.createRandom().address;
+            const { service } = createStubService(ERC4626_ABI, { asset: [vault], previewDeposit: [0] });
+            const { service: notAVault } = createStubService(ERC4626_ABI, {});
+
+            await expectBridgeError(service.quoteVaultDeposit(vault, 100), BridgeErrorType.ShareCalculationFailed);
+            await expectBridgeError(notAVault.quoteVaultDeposit(vault, 100), BridgeErrorType.InvalidVaultAddress);
+        });
+
+        it("Should require an operator signer to bridge shares", async function () {
+            const service = createService();
+            const vault = ethers.Wallet.createRandom().address;
+
+            await expectUnauthorized(service.bridgeVaultShares(vault, 100, 2, vault), BridgeRole.OPERATOR);
+        });
+    });
+
+    describe("ERC777 transfers", function () {
+        it("Should require an operator signer for holder and operator transfers", async function () {
+            const service = createService();
+            const token = ethers.Wallet.createRandom().address;
+            const holder = ethers.Wallet.createRandom().address;
+
+            await expectUnauthorized(
+                service.transferERC777WithData(token, 100, 2, holder, "0x1234"),
+                BridgeRole.OPERATOR
+            );
+            await expectUnauthorized(
+                service.operatorTransferERC777(token, holder, 100, 2, holder, "0x", "0xabcd"),
+                BridgeRole.OPERATOR
+            );
+        });
+
+        it("Should refuse operator transfers the signer is not authorized for", async function () {
+            const token = ethers.Wallet.createRandom().address;
+            const holder = ethers.Wallet.createRandom().address;
+            const { stub, signer, service } = createStubService(ERC777_ABI, { balanceOf: [1000], isOperatorFor: [false] });
+
+            const error = await expectBridgeError(
+                service.operatorTransferERC777(token, holder, 100, 2, holder, "0x", "0xabcd"),
+                BridgeErrorType.Unauthorized
+            );
+
+            expect(error.message).to.equal(`${signer.address} is not an authorized operator for ${holder}`);
+            expect(stub.calls.find(call => call.name === "isOperatorFor")?.args).to.deep.equal([signer.address, holder]);
+            expect(signer.sent).to.be.empty;
+        });
+    });
+
+    describe("Pending transactions", function () {
+        const governanceAbiInterface = new ethers.utils.Interface(GOVERNANCE_ABI);
+        const proposer = ethers.Wallet.createRandom().address;
+        const safe = ethers.Wallet.createRandom().address;
+        const toggle = new ethers.utils.Interface(["function toggleFeature(string feature, bool enabled)"])
+            .encodeFunctionData("toggleFeature", ["TEST_FEATURE", true]);
+        const [direct, viaSafe, executed] = ["direct", "via-safe", "executed"].map(name => ethers.utils.id(name));
+
+        let logIndex = 0;
+        function governanceLog(eventName: string, args: any[], transactionHash: string, timestamp = 0): ethers.providers.Log {
+            return {
+                ...governanceAbiInterface.encodeEventLog(governanceAbiInterface.getEvent(eventName), args),
+                address: governanceAddress,
+                blockNumber: 10,
+                // The stub reads each block's timestamp back from its hash
+                blockHash: ethers.utils.hexZeroPad(ethers.utils.hexlify(timestamp), 32),
+                transactionHash,
+                transactionIndex: 0,
+                logIndex: logIndex++,
+                removed: false
+            };
+        }
+
+        function createGovernanceService(): BridgeService {
+            const stub = new GovernanceStubProvider(
+                governanceAbiInterface,
+                { getThreshold: [2], getSignatureCount: [1] },
+                [
+                    governanceLog("TransactionProposed", [direct, proposer], ethers.utils.id("tx-direct"), 200),
+                    governanceLog("TransactionProposed", [viaSafe, proposer], ethers.utils.id("tx-via-safe"), 100),
+                    governanceLog("TransactionProposed", [executed, proposer], ethers.utils.id("tx-executed"), 50),
+                    governanceLog("TransactionExecuted", [executed], ethers.utils.id("tx-execute"))
+                ],
+                {
+                    [ethers.utils.id("tx-direct")]: {
+                        to: governanceAddress,
+                        data: governanceAbiInterface.encodeFunctionData("proposeTransaction", [bridgeAddress, 0, toggle])
+                    },
+                    [ethers.utils.id("tx-via-safe")]: { to: safe, data: "0x6a761202deadbeef" },
+                    [ethers.utils.id("tx-executed")]: {
+                        to: governanceAddress,
+                        data: governanceAbiInterface.encodeFunctionData("proposeTransaction", [bridgeAddress, 0, toggle])
+                    }
+                }
+            );
+            return new BridgeService(stub, bridgeAddress, governanceAddress, lockInterface, governanceInterface, monitoringService);
+        }
+
+        it("Should list open proposals oldest first, returning undecodable ones raw", async function () {
+            const pending = await createGovernanceService().getPendingTransactions();
+
+            expect(pending).to.deep.equal([
+                {
+                    hash: viaSafe,
+                    target: safe,
+                    value: "0",
+                    data: "0x6a761202deadbeef",
+                    undecoded: true,
+                    proposer,
+                    signatureCount: 1,
+                    requiredSignatures: 2,
+                    proposedAt: 100,
+                    signers: []
+                },
+                {
+                    hash: direct,
+                    target: bridgeAddress,
+                    value: "0",
+                    data: toggle,
+                    proposer,
+                    signatureCount: 1,
+                    requiredSignatures: 2,
+                    proposedAt: 200,
+                    signers: []
+                }
+            ]);
+        });
+
+        it("Should look up a single proposal and skip closed ones", async function () {
+            const service = createGovernanceService();
+
+            expect(await service.getPendingTransaction(direct)).to.include({ hash: direct, target: bridgeAddress, data: toggle });
+            expect(await service.getPendingTransaction(executed)).to.be.undefined;
+        });
+    });
+
+    describe("Off-chain proposals", function () {
+        const governanceAbiInterface = new ethers.utils.Interface(GOVERNANCE_ABI);
+        const admins = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom()];
+        const proposal: OffChainProposal = {
+            target: bridgeAddress,
+            value: "0",
+            data: "0xdeadbeef",
+            nonce: "1",
+            deadline: Math.floor(Date.now() / 1000) + 3600
+        };
+        const proposalHash = ethers.utils.id("proposal");
+
+        function createProposalService() {
+            const stub = new ContractStubProvider(governanceAbiInterface, { getThreshold: [2], hasRole: [true] });
+            const signer = new RecordingSigner(stub, () => [{
+                ...governanceAbiInterface.encodeEventLog(
+                    governanceAbiInterface.getEvent("TransactionProposed"),
+                    [proposalHash, admins[0].address]
+                ),
+                address: governanceAddress,
+                blockNumber: 10,
+                blockHash: ethers.constants.HashZero,
+                transactionHash: ethers.constants.HashZero,
+                transactionIndex: 0,
+                logIndex: 0,
+                removed: false
+            }]);
+            const service = new BridgeService(
+                stub,
+                bridgeAddress,
+                governanceAddress,
+                bridgeInterface,
+                governanceInterface,
+                monitoringService,
+                { [BridgeRole.OPERATOR]: signer }
+            );
+            return { signer, service };
+        }
+
+        it("Should propose on-chain only once enough admins approved off-chain", async function () {
+            const { signer, service } = createProposalService();
+            const collector = new OffChainSignatureCollector(governanceAddress, 31337);
+
+            collector.addSignature(proposal, await collector.sign(admins[0], proposal));
+            await expectBridgeError(service.proposeWithSignatures(proposal, collector), BridgeErrorType.InsufficientSignatures);
+            expect(signer.sent).to.be.empty;
+
+            collector.addSignature(proposal, await collector.sign(admins[1], proposal));
+            expect(await service.proposeWithSignatures(proposal, collector)).to.equal(proposalHash);
+
+            const call = governanceAbiInterface.parseTransaction({ data: signer.sent[0].data as string });
+            expect(call.name).to.equal("proposeTransaction");
+            expect(call.args.data).to.equal(proposal.data);
+            expect(collector.getSignatures(proposal)).to.be.empty;
+        });
+    });
+
+    describe("Quoting", function () {
+        const mirrorInterface = new ethers.utils.Interface(BRIDGE_MIRROR_ABI);
+        const asset = ethers.Wallet.createRandom().address;
+
+        function assetInfo(status: number) {
+            return mirrorInterface.encodeFunctionResult("getAssetInfo", [{
+                totalLocked: 0,
+                dailyLimit: ethers.utils.parseEther("1000"),
+                assetType: 1,
+                status,
+                bridgeFee: 30
+            }]);
+        }
+
+        function quoteService(stub: ethers.providers.Provider): BridgeService {
+            return new BridgeService(
+                stub,
+                bridgeAddress,
+                governanceAddress,
+                bridgeInterface,
+                governanceInterface,
+                new MonitoringService(stub, bridgeAddress)
+            );
+        }
+
+        it("Should quote the full amount, however much was bridged before", async function () {
+            const bridged = {
+                blockNumber: 99,
+                blockHash: ethers.utils.hexZeroPad("0x02", 32),
+                transactionIndex: 0,
+                removed: false,
+                address: bridgeAddress,
+                ...mirrorInterface.encodeEventLog(
+                    mirrorInterface.getEvent("AssetBridged"),
+                    [asset, bridgeAddress, bridgeAddress, ethers.utils.parseEther("900")]
+                ),
+                transactionHash: ethers.utils.hexZeroPad("0x03", 32),
+                logIndex: 0
+            };
+            const service = quoteService(new QuoteStubProvider(assetInfo(1), [bridged]));
+
+            const quote = await service.quote(asset, ethers.utils.parseEther("700"), 2);
+
+            expect(quote).to.not.have.property("fee");
+            expect(quote.netAmount.toString()).to.equal(ethers.utils.parseEther("700").toString());
+            expect(quote.dailyLimit?.toString()).to.equal(ethers.utils.parseEther("1000").toString());
+            expect(quote.withinLimits).to.be.true;
+            expect(quote.sourceGas?.cost.toString()).to.equal(ethers.BigNumber.from(21000).mul(1e9).toString());
+        });
+
+        it("Should flag single transfers above the limit bridgeAsset enforces", async function () {
+            const service = quoteService(new QuoteStubProvider(assetInfo(1)));
+
+            expect((await service.quote(asset, ethers.utils.parseEther("1000"), 2)).withinLimits).to.be.true;
+            expect((await service.quote(asset, ethers.utils.parseEther("1001"), 2)).withinLimits).to.be.false;
+        });
+
+        it("Should fall back to simulating bridgeAsset on deployments without getAssetInfo", async function () {
+            const accepted = await quoteService(new QuoteStubProvider("0x")).quote(asset, ethers.utils.parseEther("5"), 2);
+            const rejected = await quoteService(new QuoteStubProvider("0x", [], true)).quote(asset, ethers.utils.parseEther("5"), 2);
+
+            expect(accepted.dailyLimit).to.be.undefined;
+            expect(accepted.withinLimits).to.be.true;
+            expect(rejected.withinLimits).to.be.false;
+            expect(rejected.sourceGas).to.be.undefined;
+        });
+
+        it("Should reject unregistered assets and zero amounts", async function () {
+            const service = quoteService(new QuoteStubProvider(assetInfo(0)));
+
+            for (const [amount, type] of [[1, BridgeErrorType.TokenNotRegistered], [0, BridgeErrorType.InvalidAmount]] as const) {
+                try {
+                    await service.quote(asset, amount, 2);
+                    expect.fail("Expected quote to be rejected");
+                } catch (error) {
+                    expect((error as BridgeError).type).to.equal(type);
+                }
+            }
+        });
+    });
+
+    describe("Claims", function () {
+        const mirrorInterface = new ethers.utils.Interface(BRIDGE_MIRROR_ABI);
+        const asset = ethers.Wallet.createRandom().address;
+        const recipient = ethers.Wallet.createRandom().address;
+        const amount = ethers.utils.parseEther("5");
+
+        function eventLog(name: string, args: any[]): ethers.providers.Log {
+            return {
+                ...mirrorInterface.encodeEventLog(mirrorInterface.getEvent(name), args),
+                address: bridgeAddress,
+                blockNumber: 99,
+                blockHash: ethers.utils.hexZeroPad("0x02", 32),
+                transactionHash: ethers.utils.id(name),
+                transactionIndex: 0,
+                logIndex: 0,
+                removed: false
+            };
+        }
+
+        const bridged = eventLog("AssetBridged", [asset, bridgeAddress, recipient, amount]);
+        const claim = buildClaimProof(bridged);
+
+        function claimService(claimedLogs: ethers.providers.Log[], stub = new QuoteStubProvider("0x", claimedLogs)): BridgeService {
+            return new BridgeService(
+                stub,
+                bridgeAddress,
+                governanceAddress,
+                mirrorInterface,
+                governanceInterface,
+                new MonitoringService(stub, bridgeAddress),
+                {},
+                undefined,
+                undefined,
+                50
+            );
+        }
+
+        async function expectClaimRejected(service: BridgeService, proof: string, type: BridgeErrorType) {
+            try {
+                await service.claimAsset(proof, bridged);
+                expect.fail("Expected claim to be rejected");
+            } catch (error) {
+                expect((error as BridgeError).type).to.equal(type);
+            }
+        }
+
+        it("Should find proofs already consumed by AssetClaimed events", async function () {
+            const claimed = eventLog("AssetClaimed", [asset, recipient, amount, claim.proofHash]);
+
+            expect(await claimService([claimed]).isClaimProofUsed(claim)).to.be.true;
+            expect(await claimService([]).isClaimProofUsed(claim)).to.be.false;
+        });
+
+        it("Should look for used proofs from the bridge's deployment block", async function () {
+            const stub = new QuoteStubProvider("0x");
+
+            await claimService([], stub).isClaimProofUsed(claim);
+
+            expect(stub.logFilters.map(filter => filter.fromBlock)).to.deep.equal(["0x32"]);
+        });
+
+        it("Should not submit used or mismatched proofs", async function () {
+            const claimed = eventLog("AssetClaimed", [asset, recipient, amount, claim.proofHash]);
+            const inflated = encodeClaimProof({ ...claim, amount: amount.mul(2).toString() });
+
+            await expectClaimRejected(claimService([claimed]), claim.proof, BridgeErrorType.ProofAlreadyUsed);
+            await expectClaimRejected(claimService([]), inflated, BridgeErrorType.InvalidData);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+    buildClaimProof,
+    decodeClaimProof,
+    encodeClaimProof,
+    getProofHash,
+    verifyClaimProof
+} from "../../src/services/ClaimProofs";
+import { BRIDGE_MIRROR_ABI } from "../../src/services/abis";
+import { BridgeError, BridgeErrorType } from "../../src/utils/BridgeErrors";
+
+describe("ClaimProofs", function () {
+    const mirrorInterface = new ethers.utils.Interface(BRIDGE_MIRROR_ABI);
+    const asset = ethers.Wallet.createRandom().address;
+    const sender = ethers.Wallet.createRandom().address;
+    const recipient = ethers.Wallet.createRandom().address;
+    const amount = ethers.utils.parseEther("12.5");
+
+    const bridgedLog: ethers.providers.Log = {
+        ...mirrorInterface.encodeEventLog(mirrorInterface.getEvent("AssetBridged"), [asset, sender, recipient, amount]),
+        address: ethers.constants.AddressZero,
+        blockNumber: 10,
+        blockHash: ethers.utils.id("block-10"),
+        transactionHash: ethers.utils.id("bridge-tx"),
+        transactionIndex: 0,
+        logIndex: 3,
+        removed: false
+    };
+
+    function expectInvalid(action: () => unknown, message: string) {
+        try {
+            action();
+            expect.fail("Expected the proof to be rejected");
+        } catch (error) {
+            expect((error as BridgeError).type).to.equal(BridgeErrorType.InvalidData);
+            expect((error as BridgeError).message).to.contain(message);
+        }
+    }
+
+    const source = { sourceTransactionHash: bridgedLog.transactionHash, sourceLogIndex: 3 };
+
+    it("Should lay out asset, recipient and amount in the words claimAsset reads", function () {
+        const claim = buildClaimProof(bridgedLog);
+        const word = (index: number) => ethers.utils.hexDataSlice(claim.proof, index * 32, (index + 1) * 32);
+
+        expect(ethers.utils.hexDataLength(claim.proof)).to.equal(160);
+        expect(word(0)).to.equal(ethers.utils.hexZeroPad(asset, 32).toLowerCase());
+        expect(word(1)).to.equal(ethers.utils.hexZeroPad(recipient, 32).toLowerCase());
+        expect(ethers.BigNumber.from(word(2)).eq(amount)).to.be.true;
+        expect(word(3)).to.equal(bridgedLog.transactionHash);
+        expect(ethers.BigNumber.from(word(4)).toNumber()).to.equal(3);
+        expect(claim).to.include(source);
+    });
+
+    it("Should predict the proof hash claimAsset records", function () {
+        const claim = buildClaimProof(bridgedLog);
+
+        expect(claim.proofHash).to.equal(ethers.utils.keccak256(claim.proof));
+        expect(getProofHash(encodeClaimProof({ asset, recipient, amount: amount.toString(), ...source }))).to.equal(claim.proofHash);
+    });
+
+    it("Should give identical transfers from different events different proof hashes", function () {
+        const first = buildClaimProof(bridgedLog);
+        const sameTransaction = buildClaimProof({ ...bridgedLog, logIndex: 4 });
+        const otherTransaction = buildClaimProof({ ...bridgedLog, transactionHash: ethers.utils.id("bridge-tx-2") });
+
+        expect(new Set([first, sameTransaction, otherTransaction].map(claim => claim.proofHash)).size).to.equal(3);
+    });
+
+    it("Should accept a proof that matches its source event", function () {
+        const { proof } = buildClaimProof(bridgedLog);
+
+        expect(verifyClaimProof(proof, bridgedLog)).to.deep.equal({ asset, recipient, amount: amount.toString(), ...source });
+    });
+
+    it("Should name every field that differs from the source event", function () {
+        const proof = encodeClaimProof({ asset, recipient: sender, amount: amount.add(1).toString(), ...source, sourceLogIndex: 4 });
+
+        expectInvalid(() => verifyClaimProof(proof, bridgedLog), "recipient, amount, sourceLogIndex");
+    });
+
+    it("Should reject non-canonical proofs that would hash differently", function () {
+        const { proof } = buildClaimProof(bridgedLog);
+        const dirtyAddress = "0xff" + proof.slice(4);
+
+        expectInvalid(() => decodeClaimProof(proof + "00"), "expected 160 bytes");
+        expectInvalid(() => decodeClaimProof(dirtyAddress), "non-canonical");
+    });
+
+    it("Should only build claims from AssetBridged events", function () {
+        expectInvalid(() => buildClaimProof({ ...bridgedLog, topics: [ethers.utils.id("Other()")] }), "Not an AssetBridged event");
+    });
+});
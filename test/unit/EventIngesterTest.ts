@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { EventIngester } from "../../src/services/EventIngester";
+import { CursorStore } from "../../src/utils/CursorStore";
+import { ChainConfig } from "../../src/admin-panel/types/config";
+
+// Serves a fixed set of logs and records every getLogs range it was asked for
+class LogStubProvider extends ethers.providers.BaseProvider {
+    public ranges: [number, number][] = [];
+    // Canonical hash overrides, everything else hashes to blockHash(n)
+    public hashes = new Map<number, string>();
+
+    constructor(private head: number, private logs: ethers.providers.Log[]) {
+        super({ chainId: 31337, name: "stub" });
+    }
+
+    async detectNetwork(): Promise<ethers.providers.Network> {
+        return { chainId: 31337, name: "stub" };
+    }
+
+    async perform(method: string, params: any): Promise<any> {
+        if (method === "getBlockNumber") return this.head;
+        if (method === "getLogs") {
+            const fromBlock = parseInt(params.filter.fromBlock, 16);
+            const toBlock = parseInt(params.filter.toBlock, 16);
+            this.ranges.push([fromBlock, toBlock]);
+            return this.logs.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+        }
+        if (method === "getBlock") {
+            const number = parseInt(params.blockTag, 16);
+            return {
+                hash: this.hashes.get(number) ?? blockHash(number),
+                parentHash: blockHash(number - 1),
+                number,
+                timestamp: number,
+                nonce: "0x0000000000000000",
+                difficulty: 0,
+                gasLimit: "0x1c9c380",
+                gasUsed: "0x0",
+                miner: ethers.constants.AddressZero,
+                extraData: "0x",
+                transactions: []
+            };
+        }
+        throw new Error(`Unsupported stub call: ${method}`);
+    }
+
+    public advance(head: number, logs: ethers.providers.Log[]): void {
+        this.head = head;
+        this.logs = logs;
+    }
+}
+
+function blockHash(blockNumber: number, fork: string = ""): string {
+    return ethers.utils.id(`block-${fork}${blockNumber}`);
+}
+
+describe("EventIngester", function () {
+    const topic = ethers.utils.id("TokensLocked()");
+    const config: ChainConfig = {
+        bridgeAddress: ethers.Wallet.createRandom().address,
+        governanceAddress: ethers.Wallet.createRandom().address,
+        deploymentBlock: 100,
+        startBlock: 110,
+        syncBatchSize: 10,
+        maxBlockRange: 5
+    };
+
+    let dir: string;
+    let cursorStore: CursorStore;
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "cursors-"));
+        cursorStore = new CursorStore(path.join(dir, "cursors.json"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    function log(blockNumber: number, logIndex: number, fork: string = ""): ethers.providers.Log {
+        return {
+            blockNumber,
+            blockHash: blockHash(blockNumber, fork),
+            transactionIndex: 0,
+            removed: false,
+            address: config.bridgeAddress,
+            data: "0x",
+            topics: [topic],
+            transactionHash: ethers.utils.id(`tx-${blockNumber}-${logIndex}`),
+            logIndex
+        };
+    }
+
+    it("Should scan from startBlock in windows capped by maxBlockRange", async function () {
+        const provider = new LogStubProvider(121, [log(112, 0), log(120, 3)]);
+        const seen: number[] = [];
+        const ingester = new EventIngester(1, provider, config, cursorStore, [topic], async l => {
+            seen.push(l.blockNumber);
+        });
+
+        expect(await ingester.poll()).to.equal(2);
+        expect(provider.ranges).to.deep.equal([[110, 114], [115, 119], [120, 121]]);
+        expect(seen).to.deep.equal([112, 120]);
+        expect(cursorStore.get(1)).to.include({ blockNumber: 121, logIndex: null });
+    });
+
+    it("Should resume after the last handled log without repeating it", async function () {
+        const logs = [log(111, 0), log(111, 1), log(111, 2)];
+        const seen: string[] = [];
+        let failOnce = true;
+
+        const handler = async (l: ethers.providers.Log) => {
+            if (l.logIndex === 1 && failOnce) {
+                failOnce = false;
+                throw new Error("crash");
+            }
+            seen.push(`${l.blockNumber}:${l.logIndex}`);
+        };
+
+        const first = new EventIngester(1, new LogStubProvider(111, logs), config, cursorStore, [topic], handler);
+        try {
+            await first.poll();
+            expect.fail("Expected the handler failure to propagate");
+        } catch (error) {
+            expect((error as Error).message).to.equal("crash");
+        }
+        expect(cursorStore.get(1)).to.include({ blockNumber: 111, logIndex: 0 });
+
+        const restarted = new EventIngester(1, new LogStubProvider(111, logs), config, cursorStore, [topic], handler);
+        await restarted.poll();
+
+        expect(seen).to.deep.equal(["111:0", "111:1", "111:2"]);
+    });
+
+    it("Should fall back to deploymentBlock and pick up new blocks on the next poll", async function () {
+        const { startBlock, ...withoutStart } = config;
+        const provider = new LogStubProvider(102, []);
+        const ingester = new EventIngester(1, provider, withoutStart, cursorStore, [topic], async () => undefined);
+
+        await ingester.poll();
+        await ingester.poll(104);
+
+        expect(provider.ranges).to.deep.equal([[100, 102], [103, 104]]);
+    });
+
+    it("Should hold back blocks without the required confirmations", async function () {
+        const provider = new LogStubProvider(114, [log(111, 0), log(113, 0)]);
+        const seen: number[] = [];
+        const ingester = new EventIngester(1, provider, config, cursorStore, [topic], async l => {
+            seen.push(l.blockNumber);
+        }, 3);
+
+        await ingester.poll();
+
+        expect(provider.ranges).to.deep.equal([[110, 112]]);
+        expect(seen).to.deep.equal([111]);
+        expect(cursorStore.get(1)).to.include({ blockNumber: 112, blockHash: blockHash(112) });
+    });
+
+    it("Should not handle logs from a block that is no longer canonical", async function () {
+        const provider = new LogStubProvider(112, [log(111, 0), log(112, 0), log(112, 1)]);
+        provider.hashes.set(112, blockHash(112, "fork-"));
+        const seen: string[] = [];
+        const reorgs: any[] = [];
+        const ingester = new EventIngester(1, provider, config, cursorStore, [topic], async l => {
+            seen.push(`${l.blockNumber}:${l.logIndex}`);
+        });
+        ingester.on("reorg", notice => reorgs.push(notice));
+
+        await ingester.poll();
+
+        expect(seen).to.deep.equal(["111:0"]);
+        expect(cursorStore.get(1)).to.include({ blockNumber: 111, logIndex: 0 });
+        expect(reorgs).to.have.length(1);
+        expect(reorgs[0].blockNumber).to.equal(112);
+        expect(reorgs[0].logs.map((l: any) => l.logIndex)).to.deep.equal([0, 1]);
+    });
+
+    it("Should retract processed logs and rescan when checkpointed blocks are orphaned", async function () {
+        const provider = new LogStubProvider(112, [log(110, 0), log(112, 0)]);
+        const seen: string[] = [];
+        const reorgs: any[] = [];
+        const ingester = new EventIngester(1, provider, config, cursorStore, [topic], async l => {
+            seen.push(l.blockHash);
+        });
+        ingester.on("reorg", notice => reorgs.push(notice));
+
+        await ingester.poll();
+
+        // Blocks 111 and 112 are replaced by a longer fork
+        provider.hashes.set(111, blockHash(111, "fork-"));
+        provider.hashes.set(112, blockHash(112, "fork-"));
+        provider.hashes.set(113, blockHash(113, "fork-"));
+        provider.advance(113, [log(110, 0), log(112, 0, "fork-")]);
+        await ingester.poll();
+
+        expect(reorgs).to.have.length(1);
+        expect(reorgs[0].blockNumber).to.equal(112);
+        expect(reorgs[0].logs.map((l: any) => l.transactionHash)).to.deep.equal([log(112, 0).transactionHash]);
+        expect(seen).to.deep.equal([blockHash(110), blockHash(112), blockHash(112, "fork-")]);
+        expect(cursorStore.get(1)).to.include({ blockNumber: 113, blockHash: blockHash(113, "fork-") });
+    });
+});
@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { DEFAULT_FEE_STRATEGY_CONFIG, FeeStrategy, TransactionReplacement } from "../../src/utils/FeeStrategy";
+import { MonitoringService } from "../../src/utils/MonitoringService";
+import { BridgeError, BridgeErrorType } from "../../src/utils/BridgeErrors";
+import { classifyError } from "../../src/utils/RetryPolicy";
+
+const gwei = (value: number) => ethers.utils.parseUnits(String(value), "gwei");
+
+// Fee history and receipts for one chain; a hash counts as mined once listed in `mined`
+class FeeStubProvider {
+    public mined = new Set<string>();
+
+    async send(method: string): Promise<any> {
+        if (method !== "eth_feeHistory") throw new Error(`Unsupported stub call: ${method}`);
+        return {
+            baseFeePerGas: [gwei(10), gwei(12), gwei(14)].map(fee => fee.toHexString()),
+            reward: [[gwei(1)], [gwei(3)], [gwei(2)]].map(([fee]) => [fee.toHexString()])
+        };
+    }
+
+    async getTransactionReceipt(hash: string): Promise<Partial<ethers.providers.TransactionReceipt> | null> {
+        return this.mined.has(hash) ? { transactionHash: hash, status: 1, confirmations: 1 } : null;
+    }
+}
+
+describe("FeeStrategy", function () {
+    const config = { ...DEFAULT_FEE_STRATEGY_CONFIG, replaceAfter: 1000, pollInterval: 400 };
+
+    let provider: FeeStubProvider;
+    let clock: number;
+
+    beforeEach(function () {
+        provider = new FeeStubProvider();
+        clock = 0;
+    });
+
+    function createStrategy(overrides: Partial<typeof config> = {}): FeeStrategy {
+        return new FeeStrategy(
+            provider as unknown as ethers.providers.JsonRpcProvider,
+            { ...config, ...overrides },
+            () => clock,
+            async ms => { clock += ms; }
+        );
+    }
+
+    it("Should price from the next base fee and the median priority fee", async function () {
+        const fees = await createStrategy().getFees();
+
+        expect(fees.maxPriorityFeePerGas.eq(gwei(2))).to.be.true;
+        expect(fees.maxFeePerGas.eq(gwei(30))).to.be.true;
+    });
+
+    it("Should hold fees under the chain's caps", async function () {
+        const fees = await createStrategy({ maxFeePerGasCap: gwei(20), maxPriorityFeePerGasCap: gwei(1) }).getFees();
+
+        expect(fees.maxFeePerGas.eq(gwei(20))).to.be.true;
+        expect(fees.maxPriorityFeePerGas.eq(gwei(1))).to.be.true;
+    });
+
+    it("Should bump replacements by at least the configured percentage", function () {
+        const strategy = createStrategy({ maxFeePerGasCap: gwei(40) });
+        const previous = { maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(2) };
+        const market = { maxFeePerGas: gwei(20), maxPriorityFeePerGas: gwei(3) };
+
+        const bumped = strategy.bump(previous, market)!;
+
+        expect(bumped.maxFeePerGas.eq(gwei(34.5))).to.be.true;
+        expect(bumped.maxPriorityFeePerGas.eq(gwei(3))).to.be.true;
+        expect(strategy.bump({ ...previous, maxFeePerGas: gwei(36) }, market)).to.be.undefined;
+    });
+
+    it("Should replace a stuck transaction at the same nonce and follow the replacement", async function () {
+        const strategy = createStrategy();
+        const monitoring = new MonitoringService(
+            new ethers.providers.JsonRpcProvider("http://127.0.0.1:8545"),
+            ethers.constants.AddressZero
+        );
+        strategy.on("replaced", ({ previousHash, replacementHash }: TransactionReplacement) => {
+            monitoring.recordReplacement(previousHash, replacementHash);
+        });
+
+        const original = {
+            hash: ethers.utils.id("original"),
+            nonce: 7,
+            to: ethers.constants.AddressZero,
+            data: "0x",
+            value: ethers.constants.Zero,
+            gasLimit: ethers.BigNumber.from(21000),
+            chainId: 1,
+            maxFeePerGas: gwei(30),
+            maxPriorityFeePerGas: gwei(2)
+        } as ethers.providers.TransactionResponse;
+        const lockId = ethers.utils.id("lock-1");
+        monitoring.trackTransaction(lockId, 1, 2);
+        monitoring.recordSubmission(lockId, original.hash);
+
+        const sent: ethers.providers.TransactionRequest[] = [];
+        const signer = {
+            sendTransaction: async (request: ethers.providers.TransactionRequest) => {
+                sent.push(request);
+                const hash = ethers.utils.id(`replacement-${sent.length}`);
+                provider.mined.add(hash);
+                return { ...request, hash };
+            }
+        } as unknown as ethers.Signer;
+
+        const receipt = await strategy.waitOrReplace(signer, original);
+
+        expect(sent).to.have.length(1);
+        expect(sent[0].nonce).to.equal(7);
+        expect(ethers.BigNumber.from(sent[0].maxFeePerGas).eq(gwei(34.5))).to.be.true;
+        expect(receipt.transactionHash).to.equal(ethers.utils.id("replacement-1"));
+        expect(monitoring.getFinalHash(original.hash)).to.equal(receipt.transactionHash);
+        expect(monitoring.getTransaction(lockId)).to.include({ txHash: lockId, submittedTxHash: receipt.transactionHash });
+        expect(monitoring.getTransaction(original.hash)?.txHash).to.equal(lockId);
+    });
+
+    it("Should return the original receipt when it is mined before the deadline", async function () {
+        const original = { hash: ethers.utils.id("original"), nonce: 1 } as ethers.providers.TransactionResponse;
+        provider.mined.add(original.hash);
+
+        const receipt = await createStrategy().waitOrReplace({} as ethers.Signer, original);
+
+        expect(receipt.transactionHash).to.equal(original.hash);
+    });
+
+    it("Should give up on a transaction stuck at the fee cap", async function () {
+        const strategy = createStrategy({ maxFeePerGasCap: gwei(30), giveUpAfter: 5000 });
+        const original = {
+            hash: ethers.utils.id("original"),
+            nonce: 3,
+            maxFeePerGas: gwei(30),
+            maxPriorityFeePerGas: gwei(2)
+        } as ethers.providers.TransactionResponse;
+        const gaveUp: number[] = [];
+        strategy.on("gaveUp", ({ nonce }: { nonce: number }) => gaveUp.push(nonce));
+
+        try {
+            await strategy.waitOrReplace({} as ethers.Signer, original);
+            expect.fail("waitOrReplace should have given up");
+        } catch (error) {
+            expect(error).to.be.instanceOf(BridgeError);
+            expect((error as BridgeError).type).to.equal(BridgeErrorType.FeeCapReached);
+            expect(classifyError(error)).to.equal("operator");
+        }
+        expect(gaveUp).to.deep.equal([3]);
+        expect(clock).to.be.at.least(5000);
+    });
+});
@@ -0,0 +1,303 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { BridgeService } from "../../src/services/BridgeService";
+import { LockEvent, lockEventInterface } from "../../src/services/LockEvents";
+import { getEpochEnvelope, getLockLeaf, LockBatcher, verifyInclusionProof } from "../../src/services/LockBatches";
+import { decodeEnvelope, encodeEnvelope, getEnvelopeHash, PayloadType } from "../../src/services/MessageEnvelope";
+import { RelayerService } from "../../src/services/RelayerService";
+import { EpochStore, LockEpoch } from "../../src/utils/EpochStore";
+import { MessageDeliveryStore } from "../../src/utils/MessageDeliveryStore";
+import { MonitoringService } from "../../src/utils/MonitoringService";
+import { RelayHistory } from "../../src/utils/RelayHistory";
+import { RetryPolicy } from "../../src/utils/RetryPolicy";
+import { DeadLetterQueue } from "../../src/utils/DeadLetterQueue";
+
+describe("LockBatches", function () {
+    const token = ethers.Wallet.createRandom().address;
+    const sender = ethers.Wallet.createRandom().address;
+    const recipient = ethers.Wallet.createRandom().address;
+
+    function lock(name: string, targetChainId = 2): LockEvent {
+        return {
+            kind: 'ERC20',
+            lockId: ethers.utils.id(name),
+            asset: token,
+            sender,
+            recipient,
+            tokenIds: [],
+            amounts: ["100"],
+            sourceChainId: 1,
+            targetChainId,
+            blockNumber: 10,
+            blockHash: ethers.utils.id("block-10"),
+            transactionHash: ethers.utils.id(`tx-${name}`),
+            logIndex: 0
+        };
+    }
+
+    let clock: number;
+
+    beforeEach(function () {
+        clock = 1_700_000_000_000;
+    });
+
+    function createBatcher(maxBatchSize = 3, store = new EpochStore()): LockBatcher {
+        return new LockBatcher(store, { maxBatchSize, epochDuration: 60_000, retainCommitted: 3_600_000 }, () => clock);
+    }
+
+    it("Should seal an epoch once it is full and start the next one", function () {
+        const batcher = createBatcher(2);
+        const sealed: LockEpoch[] = [];
+        batcher.on('sealed', epoch => sealed.push(epoch));
+
+        batcher.add(lock("a"));
+        const full = batcher.add(lock("b"));
+        const next = batcher.add(lock("c"));
+
+        expect(full).to.include({ id: "1-2-0", status: 'sealed' });
+        expect(sealed.map(epoch => epoch.id)).to.deep.equal(["1-2-0"]);
+        expect(next).to.include({ id: "1-2-1", status: 'open' });
+    });
+
+    it("Should seal epochs that have been open for the epoch duration", function () {
+        const batcher = createBatcher();
+        batcher.add(lock("a"));
+        batcher.add(lock("b", 3));
+
+        expect(batcher.sealDue()).to.be.empty;
+        clock += 60_000;
+
+        expect(batcher.sealDue().map(epoch => epoch.id)).to.deep.equal(["1-2-0", "1-3-0"]);
+        expect(batcher.uncommitted()).to.have.length(2);
+    });
+
+    it("Should keep a re-delivered lock in its original epoch", function () {
+        const batcher = createBatcher();
+
+        batcher.add(lock("a"));
+        const again = batcher.add(lock("a"));
+
+        expect(again.locks).to.have.length(1);
+    });
+
+    it("Should take reorged locks out of open epochs and re-seal uncommitted ones", function () {
+        const batcher = createBatcher(2);
+        batcher.add(lock("a"));
+        const sealed = batcher.add(lock("b"));
+        batcher.add(lock("c"));
+        batcher.add(lock("d", 3));
+        const resealed: LockEpoch[] = [];
+        batcher.on('sealed', epoch => resealed.push(epoch));
+
+        const retracted = batcher.retract([lock("a").lockId, lock("c").lockId, lock("d").lockId]);
+
+        expect(retracted).to.have.members([lock("a").lockId, lock("c").lockId, lock("d").lockId]);
+        expect(resealed.map(epoch => epoch.id)).to.deep.equal(["1-2-0"]);
+        expect(() => batcher.getInclusionProof(lock("a").lockId)).to.throw("not in a sealed epoch");
+
+        const proof = batcher.getInclusionProof(lock("b").lockId);
+        expect(proof.root).to.not.equal(sealed.root);
+        expect(verifyInclusionProof(proof)).to.be.true;
+        expect(batcher.add(lock("e")).locks.map(entry => entry.lockId)).to.deep.equal([lock("e").lockId]);
+    });
+
+    it("Should retract emptied sealed epochs and leave epochs being committed alone", function () {
+        const batcher = createBatcher(1);
+        batcher.add(lock("a"));
+        batcher.add(lock("b"));
+
+        const retracted = batcher.retract([lock("a").lockId, lock("b").lockId], new Set(["1-2-1"]));
+
+        expect(retracted).to.deep.equal([lock("a").lockId]);
+        expect(batcher.uncommitted().map(epoch => epoch.id)).to.deep.equal(["1-2-1"]);
+        expect(batcher.getInclusionProof(lock("b").lockId).epochId).to.equal("1-2-1");
+    });
+
+    it("Should prune committed epochs after the retention period but keep numbering", function () {
+        const store = new EpochStore();
+        const batcher = createBatcher(1, store);
+        batcher.add(lock("a"));
+        batcher.add(lock("b"));
+        batcher.markCommitted("1-2-0", ethers.utils.id("commit-0"));
+        batcher.markCommitted("1-2-1", ethers.utils.id("commit-1"));
+
+        expect(batcher.prune()).to.be.empty;
+        clock += 3_600_001;
+
+        expect(batcher.prune().map(epoch => epoch.id)).to.deep.equal(["1-2-0"]);
+        expect(store.findByLock(lock("a").lockId)).to.be.undefined;
+        expect(batcher.add(lock("c")).id).to.equal("1-2-2");
+    });
+
+    it("Should find locks in a persisted store by its index", function () {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "epochs-"));
+        const filePath = path.join(dir, "epochs.json");
+
+        try {
+            const batcher = createBatcher(2, new EpochStore(filePath));
+            batcher.add(lock("a"));
+            batcher.add(lock("b"));
+
+            const reopened = new EpochStore(filePath);
+            expect(reopened.findByLock(lock("b").lockId)?.id).to.equal("1-2-0");
+            expect(reopened.findByLock(lock("c").lockId)).to.be.undefined;
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("Should give every batched lock an inclusion proof against the epoch root", function () {
+        const batcher = createBatcher(5);
+        const locks = ["a", "b", "c", "d", "e"].map(name => lock(name));
+        locks.forEach(entry => batcher.add(entry));
+
+        for (const entry of locks) {
+            const proof = batcher.getInclusionProof(entry.lockId);
+            expect(proof.leaf).to.equal(getLockLeaf(entry));
+            expect(verifyInclusionProof(proof)).to.be.true;
+        }
+
+        const proof = batcher.getInclusionProof(locks[0].lockId);
+        expect(verifyInclusionProof({ ...proof, lock: { ...proof.lock, amounts: ["1000"] } })).to.be.false;
+    });
+
+    it("Should not prove locks whose epoch is still open", function () {
+        const batcher = createBatcher();
+        batcher.add(lock("a"));
+
+        expect(() => batcher.getInclusionProof(lock("a").lockId)).to.throw("not in a sealed epoch");
+    });
+
+    it("Should relay only the root of each sealed epoch in batching mode", async function () {
+        const commits: any[][] = [];
+        const provider = new ethers.providers.JsonRpcProvider("http://127.0.0.1:8545");
+        const history = new RelayHistory();
+        const targetBridge = ethers.Wallet.createRandom().address;
+        const target = {
+            getBridgeAddress: () => targetBridge,
+            mirrorTransaction: async (...args: any[]) => {
+                commits.push(args);
+                return ethers.utils.id("commit-tx");
+            },
+            unlockTokens: async () => { throw new Error("Batched locks must not be unlocked individually"); }
+        } as unknown as BridgeService;
+        const batcher = createBatcher(2);
+        const relayer = new RelayerService(
+            { getProvider: () => provider },
+            new Map([[2, target]]),
+            new MonitoringService(provider, ethers.constants.AddressZero),
+            undefined,
+            history,
+            new RetryPolicy(),
+            new MessageDeliveryStore(),
+            new DeadLetterQueue(),
+            batcher
+        );
+        const committed = new Promise<LockEpoch>(resolve => relayer.once('epochCommitted', resolve));
+
+        const logFor = (name: string): ethers.providers.Log => ({
+            ...lockEventInterface.encodeEventLog(
+                lockEventInterface.getEvent("TokensLocked"),
+                [ethers.utils.id(name), token, sender, 100, 2, recipient]
+            ),
+            address: ethers.constants.AddressZero,
+            blockNumber: 10,
+            blockHash: ethers.utils.id("block-10"),
+            transactionHash: ethers.utils.id(`tx-${name}`),
+            transactionIndex: 0,
+            logIndex: 0,
+            removed: false
+        });
+        expect(await relayer.handleLog(1, logFor("a"))).to.equal('batched');
+        expect(await relayer.handleLog(1, logFor("b"))).to.equal('batched');
+        const epoch = await committed;
+
+        const envelope = getEpochEnvelope(epoch, ethers.constants.AddressZero, targetBridge);
+        expect(commits).to.deep.equal([[1, ethers.constants.AddressZero, getEnvelopeHash(envelope), encodeEnvelope(envelope)]]);
+        expect(decodeEnvelope(commits[0][3])).to.include({ payloadType: PayloadType.EpochCommitment, destinationChainId: 2, nonce: "0" });
+        expect(epoch).to.include({ status: 'committed', commitTxHash: ethers.utils.id("commit-tx") });
+        expect(history.get(ethers.utils.id("a"))).to.include({ state: 'confirmed', txHash: ethers.utils.id("commit-tx") });
+        expect(await relayer.handleLog(1, logFor("a"))).to.equal('alreadyRelayed');
+    });
+
+    describe("Relaying epochs", function () {
+        const logFor = (name: string): ethers.providers.Log => ({
+            ...lockEventInterface.encodeEventLog(
+                lockEventInterface.getEvent("TokensLocked"),
+                [ethers.utils.id(name), token, sender, 100, 2, recipient]
+            ),
+            address: ethers.constants.AddressZero,
+            blockNumber: 10,
+            blockHash: ethers.utils.id("block-10"),
+            transactionHash: ethers.utils.id(`tx-${name}`),
+            transactionIndex: 0,
+            logIndex: 0,
+            removed: false
+        });
+
+        // mirrorTransaction fails while `failing` is set
+        function createRelayer(batcher: LockBatcher, history = new RelayHistory()) {
+            const state = { failing: false, commits: 0 };
+            const provider = new ethers.providers.JsonRpcProvider("http://127.0.0.1:8545");
+            const target = {
+                getBridgeAddress: () => ethers.constants.AddressZero,
+                mirrorTransaction: async () => {
+                    if (state.failing) throw new Error("execution reverted");
+                    return ethers.utils.id(`commit-tx-${++state.commits}`);
+                }
+            } as unknown as BridgeService;
+            const relayer = new RelayerService(
+                { getProvider: () => provider },
+                new Map([[2, target]]),
+                new MonitoringService(provider, ethers.constants.AddressZero),
+                undefined,
+                history,
+                new RetryPolicy({ maxAttempts: 1, initialDelay: 0, maxDelay: 0, backoffFactor: 1 }),
+                new MessageDeliveryStore(),
+                new DeadLetterQueue(),
+                batcher
+            );
+            return { relayer, state };
+        }
+
+        it("Should retry a failed commit when the next epoch is sealed", async function () {
+            const batcher = createBatcher(1);
+            const { relayer, state } = createRelayer(batcher);
+
+            state.failing = true;
+            const failed = new Promise(resolve => relayer.once('epochFailed', resolve));
+            await relayer.handleLog(1, logFor("a"));
+            await failed;
+            expect(batcher.uncommitted().map(epoch => epoch.id)).to.deep.equal(["1-2-0"]);
+
+            state.failing = false;
+            const committed: LockEpoch[] = [];
+            const both = new Promise<void>(resolve => relayer.on('epochCommitted', epoch => {
+                if (committed.push(epoch) === 2) resolve();
+            }));
+            await relayer.handleLog(1, logFor("b"));
+            await both;
+
+            expect(committed.map(epoch => epoch.id)).to.deep.equal(["1-2-0", "1-2-1"]);
+            expect(batcher.uncommitted()).to.be.empty;
+        });
+
+        it("Should drop reorged locks from the open epoch and the relay history", async function () {
+            const history = new RelayHistory();
+            const batcher = createBatcher(2);
+            const { relayer } = createRelayer(batcher, history);
+            const log = logFor("a");
+
+            await relayer.handleLog(1, log);
+            relayer.handleReorg({ chainId: 1, blockNumber: 10, logs: [{ transactionHash: log.transactionHash, logIndex: 0, topics: log.topics }] });
+
+            expect(history.get(ethers.utils.id("a"))).to.be.undefined;
+            expect(batcher.uncommitted()).to.be.empty;
+            await relayer.handleLog(1, logFor("b"));
+            expect(() => batcher.getInclusionProof(ethers.utils.id("b"))).to.throw("not in a sealed epoch");
+        });
+    });
+});
@@ -0,0 +1,47 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { hashPair, MerkleTree } from "../../src/utils/MerkleTree";
+
+describe("MerkleTree", function () {
+    const leaves = (count: number) => Array.from({ length: count }, (_, i) => ethers.utils.id(`leaf-${i}`));
+
+    it("Should prove every leaf for trees of any size", function () {
+        for (let count = 1; count <= 9; count++) {
+            const tree = new MerkleTree(leaves(count));
+
+            for (const leaf of leaves(count)) {
+                expect(MerkleTree.verify(tree.root, leaf, tree.getProof(leaf)), `${count} leaves`).to.be.true;
+            }
+        }
+    });
+
+    it("Should not depend on leaf order", function () {
+        const forward = new MerkleTree(leaves(5));
+        const reversed = new MerkleTree(leaves(5).reverse());
+
+        expect(reversed.root).to.equal(forward.root);
+    });
+
+    it("Should hash sorted pairs and carry unpaired nodes up", function () {
+        const [a, b, c] = new MerkleTree(leaves(3)).leaves;
+
+        expect(new MerkleTree(leaves(3)).root).to.equal(hashPair(hashPair(a, b), c));
+        expect(hashPair(a, b)).to.equal(hashPair(b, a));
+        expect(new MerkleTree([a]).root).to.equal(a);
+    });
+
+    it("Should reject proofs for other leaves or roots", function () {
+        const tree = new MerkleTree(leaves(4));
+        const [first, second] = leaves(4);
+
+        expect(MerkleTree.verify(tree.root, second, tree.getProof(first))).to.be.false;
+        expect(MerkleTree.verify(ethers.utils.id("other"), first, tree.getProof(first))).to.be.false;
+        expect(() => tree.getProof(ethers.utils.id("missing"))).to.throw("is not in the tree");
+    });
+
+    it("Should refuse empty, duplicate or malformed leaves", function () {
+        expect(() => new MerkleTree([])).to.throw("without leaves");
+        expect(() => new MerkleTree([leaves(1)[0], leaves(1)[0]])).to.throw("distinct 32-byte");
+        expect(() => new MerkleTree(["0x1234"])).to.throw("distinct 32-byte");
+    });
+});
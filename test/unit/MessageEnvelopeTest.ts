@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+    decodeEnvelope,
+    encodeEnvelope,
+    ENVELOPE_VERSION,
+    getEnvelopeHash,
+    lockEnvelope,
+    MessageEnvelope,
+    PayloadType
+} from "../../src/services/MessageEnvelope";
+import { encodeMessagePayload, getMessageEnvelope } from "../../src/services/MirroredMessages";
+import { LockEvent } from "../../src/services/LockEvents";
+
+describe("MessageEnvelope", function () {
+    const sender = ethers.Wallet.createRandom().address;
+    const recipient = ethers.Wallet.createRandom().address;
+
+    const envelope: MessageEnvelope = {
+        version: ENVELOPE_VERSION,
+        sourceChainId: 1,
+        destinationChainId: 2,
+        nonce: "42",
+        sender,
+        recipient,
+        payloadType: PayloadType.Call,
+        payload: "0x1234"
+    };
+
+    function rejects(operation: () => unknown): string {
+        try {
+            operation();
+        } catch (error) {
+            return (error as Error).message;
+        }
+        return expect.fail("Expected the envelope to be rejected");
+    }
+
+    it("Should round-trip through the ABI codec", function () {
+        const encoded = encodeEnvelope(envelope);
+
+        expect(decodeEnvelope(encoded)).to.deep.equal(envelope);
+        expect(encodeEnvelope(decodeEnvelope(encoded))).to.equal(encoded);
+    });
+
+    it("Should only decode canonical encodings of supported versions", function () {
+        const encoded = encodeEnvelope(envelope);
+
+        expect(rejects(() => decodeEnvelope(encoded + "00".repeat(32)))).to.include("non-canonical encoding");
+        expect(rejects(() => decodeEnvelope("0x1234"))).to.include("not an ABI-encoded envelope");
+        expect(rejects(() => encodeEnvelope({ ...envelope, version: 2 }))).to.include("unsupported version 2");
+        expect(rejects(() => encodeEnvelope({ ...envelope, payloadType: 9 as PayloadType }))).to.include("unknown payload type 9");
+    });
+
+    it("Should hash every field under the envelope domain", function () {
+        const hash = getEnvelopeHash(envelope);
+
+        expect(hash).to.not.equal(ethers.utils.keccak256(encodeEnvelope(envelope)));
+        for (const change of [{ nonce: "43" }, { destinationChainId: 3 }, { payloadType: PayloadType.Lock }, { payload: "0x1235" }]) {
+            expect(getEnvelopeHash({ ...envelope, ...change }), JSON.stringify(change)).to.not.equal(hash);
+        }
+    });
+
+    it("Should use the lock ID as the nonce of a lock envelope", function () {
+        const lock: LockEvent = {
+            kind: 'ERC20',
+            lockId: ethers.utils.id("lock-1"),
+            asset: ethers.Wallet.createRandom().address,
+            sender,
+            recipient,
+            tokenIds: [],
+            amounts: ["100"],
+            sourceChainId: 1,
+            targetChainId: 2,
+            blockNumber: 10,
+            blockHash: ethers.utils.id("block-10"),
+            transactionHash: ethers.utils.id("tx"),
+            logIndex: 0
+        };
+
+        expect(lockEnvelope(lock)).to.include({
+            sourceChainId: 1,
+            destinationChainId: 2,
+            nonce: ethers.BigNumber.from(lock.lockId).toString(),
+            payloadType: PayloadType.Lock
+        });
+    });
+
+    describe("Mirrored data", function () {
+        const messageId = ethers.utils.id("message");
+
+        it("Should read Call envelopes from the chain they name", function () {
+            expect(getMessageEnvelope(1, sender, messageId, encodeEnvelope(envelope))).to.deep.equal(envelope);
+            expect(getMessageEnvelope(5, sender, messageId, encodeEnvelope(envelope))).to.be.undefined;
+            expect(getMessageEnvelope(1, sender, messageId, encodeEnvelope({ ...envelope, payloadType: PayloadType.Lock }))).to.be.undefined;
+        });
+
+        it("Should reject Call envelopes naming a sender other than the emitting contract", function () {
+            expect(getMessageEnvelope(1, sender.toLowerCase(), messageId, encodeEnvelope(envelope))).to.deep.equal(envelope);
+            expect(getMessageEnvelope(1, recipient, messageId, encodeEnvelope(envelope))).to.be.undefined;
+        });
+
+        it("Should wrap legacy payloads in a Call envelope", function () {
+            const legacy = encodeMessagePayload({ targetChainId: 2, target: recipient, callData: "0x1234" });
+
+            expect(getMessageEnvelope(1, sender, messageId, legacy)).to.deep.equal({
+                ...envelope,
+                nonce: ethers.BigNumber.from(messageId).toString()
+            });
+        });
+    });
+});
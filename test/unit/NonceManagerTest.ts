@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { NonceManager } from "../../src/utils/NonceManager";
+
+// Answers nonce queries from fixed counters and knows only the listed transactions; a queued error fails the next estimate
+class NonceStubProvider extends ethers.providers.BaseProvider {
+    public pending = 5;
+    public mined = 5;
+    public known = new Set<string>();
+    public estimateFailures: any[] = [];
+
+    constructor() {
+        super({ chainId: 31337, name: "stub" });
+    }
+
+    async detectNetwork(): Promise<ethers.providers.Network> {
+        return { chainId: 31337, name: "stub" };
+    }
+
+    async getTransaction(hash: string): Promise<ethers.providers.TransactionResponse> {
+        return (this.known.has(hash) ? { hash } : null) as ethers.providers.TransactionResponse;
+    }
+
+    async perform(method: string, params: any): Promise<any> {
+        if (method === "getTransactionCount") {
+            return params.blockTag === "pending" ? this.pending : this.mined;
+        }
+        if (method === "estimateGas") {
+            const failure = this.estimateFailures.shift();
+            if (failure) throw failure;
+            return ethers.BigNumber.from(21000);
+        }
+        throw new Error(`Unsupported stub call: ${method}`);
+    }
+}
+
+// Records the nonce and value of every send; a queued error fails the next send instead
+class RecordingSigner extends ethers.VoidSigner {
+    public nonces: number[] = [];
+    public values: string[] = [];
+    public failures: any[] = [];
+
+    constructor(provider: ethers.providers.Provider) {
+        super(ethers.constants.AddressZero, provider);
+    }
+
+    async sendTransaction(
+        transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+    ): Promise<ethers.providers.TransactionResponse> {
+        await new Promise(resolve => setImmediate(resolve));
+        const failure = this.failures.shift();
+        if (failure) throw failure;
+
+        const nonce = Number(transaction.nonce);
+        this.nonces.push(nonce);
+        this.values.push(String(transaction.value ?? "none"));
+        return { hash: ethers.utils.id(`tx-${nonce}`), nonce } as ethers.providers.TransactionResponse;
+    }
+}
+
+describe("NonceManager", function () {
+    let provider: NonceStubProvider;
+    let signer: RecordingSigner;
+    let manager: NonceManager;
+
+    beforeEach(function () {
+        provider = new NonceStubProvider();
+        signer = new RecordingSigner(provider);
+        manager = new NonceManager();
+    });
+
+    it("Should give concurrent sends consecutive nonces starting at the pending count", async function () {
+        const managed = manager.wrap(signer);
+
+        await Promise.all(Array.from({ length: 10 }, () => managed.sendTransaction({ to: signer.address })));
+
+        expect([...signer.nonces].sort((a, b) => a - b)).to.deep.equal([5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+    });
+
+    it("Should share one ledger between wrappers of the same account", async function () {
+        await manager.wrap(signer).sendTransaction({ to: signer.address });
+        await manager.wrap(new RecordingSigner(provider)).sendTransaction({ to: signer.address });
+        await manager.wrap(signer).sendTransaction({ to: signer.address });
+
+        expect(signer.nonces).to.deep.equal([5, 7]);
+    });
+
+    it("Should reuse the nonce of a send the node rejected", async function () {
+        const managed = manager.wrap(signer);
+        await managed.sendTransaction({ to: signer.address });
+
+        signer.failures.push({ code: "UNPREDICTABLE_GAS_LIMIT", message: "execution reverted" });
+        try {
+            await managed.sendTransaction({ to: signer.address });
+            expect.fail("Expected the send to fail");
+        } catch (error) {
+            expect((error as any).code).to.equal("UNPREDICTABLE_GAS_LIMIT");
+        }
+        await managed.sendTransaction({ to: signer.address });
+
+        expect(signer.nonces).to.deep.equal([5, 6]);
+    });
+
+    it("Should not take a nonce for a send whose estimate fails", async function () {
+        const managed = manager.wrap(signer);
+        provider.estimateFailures.push(undefined, { code: "UNPREDICTABLE_GAS_LIMIT", message: "execution reverted" });
+
+        const results = await Promise.allSettled(Array.from({ length: 3 }, () => managed.sendTransaction({ to: signer.address })));
+
+        expect(results.map(result => result.status)).to.deep.equal(["fulfilled", "rejected", "fulfilled"]);
+        expect(signer.nonces).to.deep.equal([5, 6]);
+    });
+
+    it("Should fill a nonce that later sends were already given", async function () {
+        const managed = manager.wrap(signer);
+        signer.failures.push(undefined, { code: "SERVER_ERROR", message: "insufficient funds" });
+
+        const results = await Promise.allSettled(Array.from({ length: 3 }, () => managed.sendTransaction({ to: signer.address })));
+
+        expect(results.map(result => result.status)).to.deep.equal(["fulfilled", "rejected", "fulfilled"]);
+        // 6 goes to a 0-value send to ourselves instead of holding 7 back
+        expect(signer.nonces).to.deep.equal([5, 7, 6]);
+        expect(signer.values[2]).to.equal("0");
+    });
+
+    it("Should resync from the node after a nonce conflict", async function () {
+        const managed = manager.wrap(signer);
+        await managed.sendTransaction({ to: signer.address });
+
+        // Another process sent from the same account
+        provider.pending = 9;
+        signer.failures.push({ code: "SERVER_ERROR", error: { message: "nonce too low" } });
+        try {
+            await managed.sendTransaction({ to: signer.address });
+            expect.fail("Expected the send to fail");
+        } catch (error) {
+            expect((error as any).code).to.equal("SERVER_ERROR");
+        }
+        await managed.sendTransaction({ to: signer.address });
+
+        expect(signer.nonces).to.deep.equal([5, 9]);
+    });
+
+    it("Should fill the gap left by a dropped transaction", async function () {
+        const managed = manager.wrap(signer);
+        for (let i = 0; i < 3; i++) {
+            await managed.sendTransaction({ to: signer.address });
+        }
+
+        // Nonce 5 was mined, 7 is still pending and 6 fell out of the mempool
+        provider.mined = 6;
+        provider.pending = 6;
+        provider.known.add(ethers.utils.id("tx-7"));
+
+        // Not yet indexed looks the same as dropped for a while
+        expect(await manager.reconcile()).to.be.empty;
+        expect(await manager.reconcile()).to.be.empty;
+        expect(await manager.reconcile()).to.deep.equal([6]);
+        await managed.sendTransaction({ to: signer.address });
+        await managed.sendTransaction({ to: signer.address });
+
+        expect(signer.nonces).to.deep.equal([5, 6, 7, 6, 8]);
+    });
+});
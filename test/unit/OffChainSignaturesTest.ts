@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+    OffChainProposal,
+    OffChainSignatureCollector,
+    SignatureStore
+} from "../../src/services/OffChainSignatures";
+import { BridgeError, BridgeErrorType } from "../../src/utils/BridgeErrors";
+
+describe("Off-chain signature collection", function () {
+    const governanceAddress = ethers.Wallet.createRandom().address;
+    const admins = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom(), ethers.Wallet.createRandom()];
+
+    const proposal: OffChainProposal = {
+        target: ethers.Wallet.createRandom().address,
+        value: "0",
+        data: new ethers.utils.Interface(["function toggleFeature(string feature, bool enabled)"])
+            .encodeFunctionData("toggleFeature", ["TOKEN_LOCK", true]),
+        nonce: "1",
+        deadline: Math.floor(Date.now() / 1000) + 3600
+    };
+
+    function expectBridgeError(fn: () => unknown, type: BridgeErrorType) {
+        try {
+            fn();
+            expect.fail("Expected a BridgeError");
+        } catch (error) {
+            expect(error).to.be.instanceOf(BridgeError);
+            expect((error as BridgeError).type).to.equal(type);
+        }
+    }
+
+    it("Should verify signatures against the EIP-712 digest", async function () {
+        const collector = new OffChainSignatureCollector(governanceAddress, 1);
+        const collected = await collector.sign(admins[0], proposal);
+
+        expect(collector.recover(proposal, collected.signature)).to.equal(admins[0].address);
+        expect(ethers.utils.recoverAddress(collector.digest(proposal), collected.signature)).to.equal(admins[0].address);
+    });
+
+    it("Should bind signatures to the chain", async function () {
+        const mainnet = new OffChainSignatureCollector(governanceAddress, 1);
+        const polygon = new OffChainSignatureCollector(governanceAddress, 137);
+        const collected = await mainnet.sign(admins[0], proposal);
+
+        expectBridgeError(() => polygon.addSignature(proposal, collected), BridgeErrorType.InvalidSignature);
+    });
+
+    it("Should reject duplicate and mismatched signatures", async function () {
+        const collector = new OffChainSignatureCollector(governanceAddress, 1);
+        const collected = await collector.sign(admins[0], proposal);
+
+        collector.addSignature(proposal, collected);
+        expectBridgeError(() => collector.addSignature(proposal, collected), BridgeErrorType.AlreadySigned);
+        expectBridgeError(
+            () => collector.addSignature(proposal, { ...collected, signer: admins[1].address }),
+            BridgeErrorType.InvalidSignature
+        );
+    });
+
+    it("Should only release sorted signatures once the threshold is met", async function () {
+        const collector = new OffChainSignatureCollector(governanceAddress, 1);
+
+        collector.addSignature(proposal, await collector.sign(admins[0], proposal));
+        expectBridgeError(() => collector.collect(proposal, 2), BridgeErrorType.InsufficientSignatures);
+
+        collector.addSignature(proposal, await collector.sign(admins[1], proposal));
+        const signatures = collector.collect(proposal, 2);
+        const signers = signatures.map(signature => collector.recover(proposal, signature).toLowerCase());
+
+        expect(signers).to.deep.equal([...signers].sort());
+        expectBridgeError(() => collector.collect(proposal, 2, [admins[2].address]), BridgeErrorType.InsufficientSignatures);
+    });
+
+    it("Should refuse expired proposals", async function () {
+        const collector = new OffChainSignatureCollector(governanceAddress, 1);
+        const expired = { ...proposal, deadline: Math.floor(Date.now() / 1000) - 1 };
+
+        collector.addSignature(expired, await collector.sign(admins[0], expired));
+        expectBridgeError(() => collector.collect(expired, 1), BridgeErrorType.DeadlineExpired);
+    });
+
+    it("Should persist signatures across collector instances", async function () {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "signatures-"));
+        const filePath = path.join(dir, "signatures.json");
+
+        try {
+            const first = new OffChainSignatureCollector(governanceAddress, 1, new SignatureStore(filePath));
+            first.addSignature(proposal, await first.sign(admins[0], proposal));
+
+            const second = new OffChainSignatureCollector(governanceAddress, 1, new SignatureStore(filePath));
+            expect(second.getSignatures(proposal).map(s => s.signer)).to.deep.equal([admins[0].address]);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
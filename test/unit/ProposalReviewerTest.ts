@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { ProposalReviewer } from "../../src/services/ProposalReviewer";
+import { BridgeRole, PendingTransaction } from "../../src/admin-panel/types/BridgeAdmin";
+import { BRIDGE_MIRROR_ABI, DIAMOND_CUT_ABI, GOVERNANCE_ABI } from "../../src/services/abis";
+
+// Answers eth_call from a fixed table of calldata -> return data
+class StubProvider extends ethers.providers.BaseProvider {
+    constructor(private readonly responses: Map<string, string>) {
+        super({ chainId: 31337, name: "stub" });
+    }
+
+    async detectNetwork(): Promise<ethers.providers.Network> {
+        return { chainId: 31337, name: "stub" };
+    }
+
+    async perform(method: string, params: any): Promise<any> {
+        if (method === "call") {
+            const response = this.responses.get(params.transaction.data);
+            if (response) return response;
+        }
+        throw new Error(`Unsupported stub call: ${method}`);
+    }
+}
+
+describe("ProposalReviewer", function () {
+    const bridgeAddress = ethers.Wallet.createRandom().address;
+    const governanceAddress = ethers.Wallet.createRandom().address;
+    const bridgeInterface = new ethers.utils.Interface(BRIDGE_MIRROR_ABI);
+    const governanceInterface = new ethers.utils.Interface(GOVERNANCE_ABI);
+
+    function pending(target: string, data: string, value = "0"): PendingTransaction {
+        return {
+            hash: ethers.utils.id(data),
+            target,
+            value,
+            data,
+            proposer: ethers.constants.AddressZero,
+            signatureCount: 1,
+            requiredSignatures: 2,
+            proposedAt: 0,
+            signers: []
+        };
+    }
+
+    it("Should diff a feature toggle against the current flag", async function () {
+        const responses = new Map([
+            [bridgeInterface.encodeFunctionData("isFeatureEnabled", ["TOKEN_LOCK"]),
+                bridgeInterface.encodeFunctionResult("isFeatureEnabled", [false])]
+        ]);
+        const reviewer = new ProposalReviewer(new StubProvider(responses), bridgeAddress, governanceAddress);
+
+        const review = await reviewer.review(pending(
+            bridgeAddress,
+            bridgeInterface.encodeFunctionData("toggleFeature", ["TOKEN_LOCK", true])
+        ));
+
+        expect(review.contract).to.equal("BridgeMirror");
+        expect(review.description).to.equal('Enable feature "TOKEN_LOCK"');
+        expect(review.changes).to.deep.equal([{ field: "feature TOKEN_LOCK", current: "false", proposed: "true" }]);
+        expect(review.warnings).to.be.empty;
+    });
+
+    it("Should diff a threshold update against the current threshold", async function () {
+        const responses = new Map([
+            [governanceInterface.encodeFunctionData("getThreshold"), governanceInterface.encodeFunctionResult("getThreshold", [2])]
+        ]);
+        const reviewer = new ProposalReviewer(new StubProvider(responses), bridgeAddress, governanceAddress);
+
+        const review = await reviewer.review(pending(
+            governanceAddress,
+            governanceInterface.encodeFunctionData("updateThreshold", [3])
+        ));
+
+        expect(review.changes).to.deep.equal([{ field: "signature threshold", current: "2", proposed: "3" }]);
+    });
+
+    it("Should report the current role of an account", async function () {
+        const account = ethers.Wallet.createRandom().address;
+        const responses = new Map(
+            [BridgeRole.GUARDIAN, BridgeRole.ADMIN, BridgeRole.OPERATOR].map(role => [
+                governanceInterface.encodeFunctionData("hasRole", [account, role]),
+                governanceInterface.encodeFunctionResult("hasRole", [role === BridgeRole.OPERATOR])
+            ])
+        );
+        const reviewer = new ProposalReviewer(new StubProvider(responses), bridgeAddress, governanceAddress);
+
+        const review = await reviewer.review(pending(
+            governanceAddress,
+            governanceInterface.encodeFunctionData("assignRole", [account, BridgeRole.ADMIN])
+        ));
+
+        expect(review.changes).to.deep.equal([{ field: `role of ${account}`, current: "OPERATOR", proposed: "ADMIN" }]);
+    });
+
+    it("Should summarize diamond cuts", async function () {
+        const diamondInterface = new ethers.utils.Interface(DIAMOND_CUT_ABI);
+        const facet = ethers.Wallet.createRandom().address;
+        const reviewer = new ProposalReviewer(new StubProvider(new Map()), bridgeAddress, governanceAddress);
+
+        const review = await reviewer.review(pending(
+            bridgeAddress,
+            diamondInterface.encodeFunctionData("diamondCut", [
+                [{ facetAddress: facet, action: 0, functionSelectors: ["0x12345678", "0x9abcdef0"] }],
+                ethers.constants.AddressZero,
+                "0x"
+            ])
+        ));
+
+        expect(review.contract).to.equal("DiamondCut");
+        expect(review.description).to.equal(`Diamond cut: Add 2 selector(s) on ${facet}`);
+    });
+
+    it("Should warn about unknown calldata, foreign targets and attached value", async function () {
+        const reviewer = new ProposalReviewer(new StubProvider(new Map()), bridgeAddress, governanceAddress);
+
+        const review = await reviewer.review(pending(ethers.Wallet.createRandom().address, "0xdeadbeef", "1000"));
+
+        expect(review.contract).to.equal("Unknown");
+        expect(review.warnings).to.have.length(3);
+    });
+
+    it("Should warn when the proposal could not be decoded from its transaction", async function () {
+        const reviewer = new ProposalReviewer(new StubProvider(new Map()), bridgeAddress, governanceAddress);
+
+        const review = await reviewer.review({ ...pending(governanceAddress, "0xdeadbeef"), undecoded: true });
+
+        expect(review.warnings).to.include("Proposal calldata could not be recovered from the proposing transaction");
+    });
+});
@@ -0,0 +1,139 @@
+import { ethers, network } from "hardhat";
+import { expect } from "chai";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { buildLockReceiptProof, LockReceiptProof, verifyLockReceiptProof } from "../../src/services/ReceiptProofs";
+import { lockEventInterface } from "../../src/services/LockEvents";
+import { getEnvelopeHash, lockEnvelope } from "../../src/services/MessageEnvelope";
+import { MerklePatriciaTrie } from "../../src/utils/MerklePatriciaTrie";
+
+// Init code for a contract that emits LOG4(topics = calldata[0:128], data = calldata[128:]),
+// standing in for the bridge so the test needs no compiled artifacts
+const LOG_EMITTER_INIT_CODE = "0x601a600c600039601a6000f3" + "366000600037606051604051602051600051608036036080a400";
+
+describe("ReceiptProofs", function () {
+    describe("MerklePatriciaTrie", function () {
+        const key = (index: number) => ethers.utils.RLP.encode(index === 0 ? "0x" : ethers.utils.hexlify(index));
+        const entries = (count: number) => Array.from({ length: count }, (_, i) => ({
+            key: key(i),
+            value: ethers.utils.hexlify(ethers.utils.toUtf8Bytes(`receipt-${i}`.repeat(i % 3 + 1)))
+        }));
+
+        it("Should use the empty-trie root when there are no entries", function () {
+            expect(new MerklePatriciaTrie([]).root)
+                .to.equal("0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421");
+        });
+
+        it("Should prove every key across embedded, hashed and extension nodes", function () {
+            for (const count of [1, 2, 16, 17, 130]) {
+                const trie = new MerklePatriciaTrie(entries(count));
+
+                for (const entry of entries(count)) {
+                    expect(MerklePatriciaTrie.verify(trie.root, entry.key, trie.getProof(entry.key)), `${count} entries`)
+                        .to.equal(entry.value);
+                }
+            }
+        });
+
+        it("Should reject tampered proofs and absent keys", function () {
+            const trie = new MerklePatriciaTrie(entries(20));
+            const proof = trie.getProof(key(7));
+            const tampered = [...proof.slice(0, -1), proof[proof.length - 1].replace(/.$/, c => c === "0" ? "1" : "0")];
+
+            expect(() => MerklePatriciaTrie.verify(trie.root, key(7), tampered)).to.throw("does not match its reference");
+            expect(() => MerklePatriciaTrie.verify(trie.root, key(21), proof)).to.throw();
+            expect(() => trie.getProof(key(21))).to.throw("is not in the trie");
+        });
+    });
+
+    describe("Lock receipts", function () {
+        let owner: SignerWithAddress;
+        let other: SignerWithAddress;
+        let bridgeAddress: string;
+        const lockId = ethers.utils.id("lock-1");
+        const token = ethers.Wallet.createRandom().address;
+        const recipient = ethers.Wallet.createRandom().address;
+
+        before(async function () {
+            [owner, other] = await ethers.getSigners();
+            const deployment = await owner.sendTransaction({ data: LOG_EMITTER_INIT_CODE });
+            bridgeAddress = (await deployment.wait()).contractAddress;
+        });
+
+        afterEach(async function () {
+            await network.provider.send("evm_setAutomine", [true]);
+        });
+
+        // Mines the lock between unrelated transfers so the block's trie has several receipts
+        async function lockInBusyBlock(): Promise<string> {
+            const { data, topics } = lockEventInterface.encodeEventLog(
+                lockEventInterface.getEvent("TokensLocked"),
+                [lockId, token, owner.address, 1000, 2, recipient]
+            );
+
+            await network.provider.send("evm_setAutomine", [false]);
+            for (let i = 0; i < 3; i++) {
+                await other.sendTransaction({ to: owner.address, value: i + 1 });
+            }
+            const lock = await owner.sendTransaction({ to: bridgeAddress, data: ethers.utils.hexConcat([...topics, data]) });
+            await other.sendTransaction({ to: owner.address, value: 4 });
+            await network.provider.send("evm_mine", []);
+
+            const receipt = await lock.wait();
+            expect(receipt.transactionIndex).to.be.greaterThan(0);
+            return lock.hash;
+        }
+
+        it("Should prove a TokensLocked log against its block header", async function () {
+            const hash = await lockInBusyBlock();
+            const proof = await buildLockReceiptProof(ethers.provider, hash, bridgeAddress);
+            const block = await ethers.provider.getBlock(proof.blockNumber);
+
+            const lock = verifyLockReceiptProof(proof, { chainId: 31337, blockHash: block.hash, bridgeAddress });
+
+            expect(lock).to.deep.include({
+                kind: 'ERC20',
+                lockId,
+                asset: token,
+                sender: owner.address,
+                recipient,
+                amounts: ["1000"],
+                sourceChainId: 31337,
+                targetChainId: 2,
+                transactionHash: hash
+            });
+            expect(proof.envelopeHash).to.equal(getEnvelopeHash(lockEnvelope(lock)));
+        });
+
+        it("Should reject proofs that do not match the trusted block or bridge", async function () {
+            const hash = await lockInBusyBlock();
+            const proof = await buildLockReceiptProof(ethers.provider, hash, bridgeAddress);
+            const trusted = { chainId: 31337, blockHash: proof.blockHash, bridgeAddress };
+            const rejects = (candidate: LockReceiptProof, source = trusted) => {
+                try {
+                    verifyLockReceiptProof(candidate, source);
+                } catch (error) {
+                    return (error as Error).message;
+                }
+                return expect.fail("Expected the proof to be rejected");
+            };
+
+            expect(rejects(proof, { ...trusted, blockHash: ethers.utils.id("other block") })).to.include("trusted block hash");
+            expect(rejects(proof, { ...trusted, bridgeAddress: other.address })).to.include("not a TokensLocked event from the bridge");
+            expect(rejects({ ...proof, transactionIndex: proof.transactionIndex + 1 })).to.include("Invalid lock receipt proof");
+            expect(rejects({ ...proof, receiptLogIndex: 1 })).to.include("receipt has no log 1");
+            expect(rejects({ ...proof, envelopeHash: ethers.utils.id("other lock") })).to.include("not the lock with envelope hash");
+        });
+
+        it("Should refuse transactions without a TokensLocked log from the bridge", async function () {
+            const transfer = await other.sendTransaction({ to: owner.address, value: 1 });
+            await transfer.wait();
+
+            try {
+                await buildLockReceiptProof(ethers.provider, transfer.hash, bridgeAddress);
+                expect.fail("Expected buildLockReceiptProof to throw");
+            } catch (error) {
+                expect((error as Error).message).to.include("emitted no TokensLocked event");
+            }
+        });
+    });
+});
@@ -0,0 +1,386 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { RelayerService } from "../../src/services/RelayerService";
+import { BridgeService } from "../../src/services/BridgeService";
+import { LockEvent, lockEventInterface, parseLockLog } from "../../src/services/LockEvents";
+import { MonitoringService } from "../../src/utils/MonitoringService";
+import { RelayHistory } from "../../src/utils/RelayHistory";
+import { MessageDeliveryStore } from "../../src/utils/MessageDeliveryStore";
+import { DeadLetterQueue } from "../../src/utils/DeadLetterQueue";
+import { BridgeError, BridgeErrorType } from "../../src/utils/BridgeErrors";
+import { RetryPolicy } from "../../src/utils/RetryPolicy";
+import { encodeMessagePayload, mirrorEventInterface, parseMirroredLog } from "../../src/services/MirroredMessages";
+import { encodeEnvelope, ENVELOPE_VERSION, getEnvelopeHash, PayloadType } from "../../src/services/MessageEnvelope";
+
+describe("RelayerService", function () {
+    const token = ethers.Wallet.createRandom().address;
+    const sender = ethers.Wallet.createRandom().address;
+    const recipient = ethers.Wallet.createRandom().address;
+    const lockId = ethers.utils.id("lock-1");
+
+    function lockLog(targetChainId: ethers.BigNumberish): ethers.providers.Log {
+        const encoded = lockEventInterface.encodeEventLog(
+            lockEventInterface.getEvent("TokensLocked"),
+            [lockId, token, sender, 100, targetChainId, recipient]
+        );
+        return {
+            ...encoded,
+            address: ethers.constants.AddressZero,
+            blockNumber: 10,
+            blockHash: ethers.utils.id("block-10"),
+            transactionHash: ethers.utils.id("tx"),
+            transactionIndex: 0,
+            logIndex: 0,
+            removed: false
+        };
+    }
+
+    function createRelayer(unlocks: any[][], failWith?: Error, processedOnChain: string[] = [], retryPolicy = new RetryPolicy()) {
+        const provider = new ethers.providers.JsonRpcProvider("http://127.0.0.1:8545");
+        const monitoring = new MonitoringService(provider, ethers.constants.AddressZero);
+        const history = new RelayHistory();
+        const deliveries = new MessageDeliveryStore();
+        const deadLetters = new DeadLetterQueue();
+        const target = {
+            mirrorTransaction: async (...args: any[]) => {
+                if (failWith) throw failWith;
+                unlocks.push(args);
+                return ethers.utils.id("delivery-tx");
+            },
+            isLockProcessed: async (id: string) => processedOnChain.includes(id),
+            unlockTokens: async (...args: any[]) => {
+                if (failWith) throw failWith;
+                unlocks.push(args);
+                return { lockId: args[3], txHash: ethers.utils.id("unlock-tx"), alreadyProcessed: false };
+            }
+        } as unknown as BridgeService;
+
+        const relayer = new RelayerService(
+            { getProvider: () => provider },
+            new Map([[2, target]]),
+            monitoring,
+            undefined,
+            history,
+            retryPolicy,
+            deliveries,
+            deadLetters
+        );
+        return { relayer, monitoring, history, deliveries, deadLetters, target };
+    }
+
+    it("Should decode lock logs into relayable events", function () {
+        const lock = parseLockLog(lockLog(2), 1) as LockEvent;
+
+        expect(lock.kind).to.equal('ERC20');
+        expect(lock.lockId).to.equal(lockId);
+        expect(lock.asset).to.equal(token);
+        expect(lock.amounts).to.deep.equal(["100"]);
+        expect(lock.sourceChainId).to.equal(1);
+        expect(lock.targetChainId).to.equal(2);
+    });
+
+    it("Should skip lock logs whose target chain ID is out of range", async function () {
+        const unlocks: any[][] = [];
+        const { relayer } = createRelayer(unlocks);
+        const huge = ethers.BigNumber.from(2).pow(53);
+
+        expect(parseLockLog(lockLog(huge), 1)).to.be.undefined;
+        expect(await relayer.handleLog(1, lockLog(huge))).to.be.undefined;
+        expect(unlocks).to.be.empty;
+    });
+
+    it("Should submit the unlock on the lock's target chain", async function () {
+        const unlocks: any[][] = [];
+        const { relayer, monitoring } = createRelayer(unlocks);
+        const relayed: LockEvent[] = [];
+        relayer.on('relayed', lock => relayed.push(lock));
+
+        await relayer.handleLog(1, lockLog(2));
+
+        expect(unlocks).to.deep.equal([[token, "100", recipient, lockId]]);
+        expect(relayed).to.have.length(1);
+        expect(monitoring.getTransaction(lockId)?.status).to.equal('confirmed');
+    });
+
+    it("Should not submit an unlock twice for a re-delivered lock", async function () {
+        const unlocks: any[][] = [];
+        const { relayer, history } = createRelayer(unlocks);
+        const skipped: any[] = [];
+        relayer.on('skipped', skip => skipped.push(skip));
+
+        await relayer.handleLog(1, lockLog(2));
+        await relayer.handleLog(1, lockLog(2));
+
+        expect(unlocks).to.have.length(1);
+        expect(skipped.map(skip => skip.reason)).to.deep.equal(['alreadyRelayed']);
+        expect(history.get(lockId)).to.include({ state: 'finalized', txHash: ethers.utils.id("unlock-tx") });
+    });
+
+    it("Should skip locks the target bridge has already processed", async function () {
+        const unlocks: any[][] = [];
+        const { relayer, monitoring, history } = createRelayer(unlocks, undefined, [lockId]);
+        const skipped: any[] = [];
+        relayer.on('skipped', skip => skipped.push(skip));
+
+        await relayer.handleLog(1, lockLog(2));
+
+        expect(unlocks).to.be.empty;
+        expect(skipped.map(skip => skip.reason)).to.deep.equal(['alreadyProcessed']);
+        expect(history.get(lockId)).to.include({ state: 'finalized', alreadyProcessed: true });
+        expect(monitoring.getTransaction(lockId)?.status).to.equal('confirmed');
+    });
+
+    it("Should report locks for unknown chains as failed", async function () {
+        const { relayer, monitoring } = createRelayer([]);
+        const failures: any[] = [];
+        relayer.on('relayFailed', failure => failures.push(failure));
+
+        await relayer.handleLog(1, lockLog(999));
+
+        expect(failures).to.have.length(1);
+        expect(monitoring.getTransaction(lockId)?.status).to.equal('failed');
+    });
+
+    it("Should ignore unrelated logs", async function () {
+        const unlocks: any[][] = [];
+        const { relayer } = createRelayer(unlocks);
+
+        await relayer.handleLog(1, { ...lockLog(2), topics: [ethers.utils.id("Other()")] });
+
+        expect(unlocks).to.be.empty;
+    });
+
+    it("Should retract relayed locks and raise a ChainReorg alert", async function () {
+        const { relayer, monitoring } = createRelayer([]);
+        const alerts: any[] = [];
+        monitoring.on('alert', alert => alerts.push(alert));
+
+        const log = lockLog(2);
+        await relayer.handleLog(1, log);
+        relayer.handleReorg({
+            chainId: 1,
+            blockNumber: 10,
+            logs: [
+                { transactionHash: log.transactionHash, logIndex: 0, topics: log.topics },
+                { transactionHash: log.transactionHash, logIndex: 1, topics: [ethers.utils.id("Other()")] }
+            ]
+        });
+
+        expect(monitoring.getTransaction(lockId)?.status).to.equal('retracted');
+        expect(alerts).to.have.length(1);
+        expect(alerts[0]).to.include({ type: 'ChainReorg', chainId: 1, severity: 'CRITICAL' });
+        expect(alerts[0].lockIds).to.deep.equal([lockId]);
+    });
+
+    describe("Mirrored messages", function () {
+        const sourceAddress = ethers.Wallet.createRandom().address;
+        const sourceBridge = ethers.Wallet.createRandom().address;
+        const callTarget = ethers.Wallet.createRandom().address;
+        const appTxHash = ethers.utils.id("app-tx");
+
+        function mirroredLog(sourceChainId: ethers.BigNumberish, data: string): ethers.providers.Log {
+            const encoded = mirrorEventInterface.encodeEventLog(
+                mirrorEventInterface.getEvent("TransactionMirrored"),
+                [sourceChainId, sourceAddress, appTxHash, data]
+            );
+            return { ...lockLog(2), ...encoded, address: sourceBridge };
+        }
+
+        const payload = encodeMessagePayload({ targetChainId: 2, target: callTarget, callData: "0x1234" });
+
+        it("Should deliver a mirrored message to the chain named in its payload", async function () {
+            const calls: any[][] = [];
+            const { relayer, deliveries } = createRelayer(calls);
+            const delivered: any[] = [];
+            relayer.on('delivered', event => delivered.push(event));
+
+            await relayer.handleLog(1, mirroredLog(1, payload));
+
+            expect(calls).to.deep.equal([[1, sourceAddress, appTxHash, payload, delivered[0].message.messageId]]);
+            expect(delivered[0].message.payload).to.deep.equal({ targetChainId: 2, target: callTarget, callData: "0x1234" });
+            expect(deliveries.get(delivered[0].message.messageId))
+                .to.include({ status: 'delivered', txHash: ethers.utils.id("delivery-tx"), attempts: 1 });
+        });
+
+        it("Should deliver Call envelopes and track them by envelope hash", async function () {
+            const calls: any[][] = [];
+            const { relayer, monitoring } = createRelayer(calls);
+            const envelope = {
+                version: ENVELOPE_VERSION,
+                sourceChainId: 1,
+                destinationChainId: 2,
+                nonce: "7",
+                sender: sourceBridge,
+                recipient: callTarget,
+                payloadType: PayloadType.Call,
+                payload: "0x1234"
+            };
+            const data = encodeEnvelope(envelope);
+            const delivered: any[] = [];
+            relayer.on('delivered', event => delivered.push(event));
+
+            expect(await relayer.handleLog(1, mirroredLog(1, data))).to.equal('relayed');
+
+            expect(calls).to.deep.equal([[1, sourceAddress, appTxHash, data, delivered[0].message.messageId]]);
+            expect(delivered[0].message.payload).to.deep.equal({ targetChainId: 2, target: callTarget, callData: "0x1234" });
+            expect(monitoring.getTransaction(delivered[0].message.messageId))
+                .to.include({ status: 'confirmed', envelopeHash: getEnvelopeHash(envelope), payloadType: "Call" });
+        });
+
+        it("Should not take a Call envelope's sender from the event's sourceAddress argument", function () {
+            const data = encodeEnvelope({
+                version: ENVELOPE_VERSION,
+                sourceChainId: 1,
+                destinationChainId: 2,
+                nonce: "7",
+                sender: sourceAddress,
+                recipient: callTarget,
+                payloadType: PayloadType.Call,
+                payload: "0x1234"
+            });
+
+            expect(parseMirroredLog(mirroredLog(1, data), 1)?.envelope).to.be.undefined;
+        });
+
+        it("Should not re-deliver a message or relay its echo on the destination", async function () {
+            const calls: any[][] = [];
+            const { relayer } = createRelayer(calls);
+            const skipped: any[] = [];
+            relayer.on('skipped', skip => skipped.push(skip));
+
+            await relayer.handleLog(1, mirroredLog(1, payload));
+            await relayer.handleLog(1, mirroredLog(1, payload));
+            // The delivery emits the event again on chain 2 with the origin chain ID
+            await relayer.handleLog(2, mirroredLog(1, payload));
+
+            expect(calls).to.have.length(1);
+            expect(skipped.map(skip => skip.reason)).to.deep.equal(['alreadyDelivered']);
+        });
+
+        it("Should skip mirrored logs whose source chain ID is out of range", async function () {
+            const calls: any[][] = [];
+            const { relayer } = createRelayer(calls);
+            const huge = ethers.BigNumber.from(2).pow(53);
+
+            expect(parseMirroredLog(mirroredLog(huge, payload), 1)).to.be.undefined;
+            expect(await relayer.handleLog(1, mirroredLog(huge, payload))).to.be.undefined;
+            expect(calls).to.be.empty;
+        });
+
+        it("Should record failed and undeliverable messages", async function () {
+            const { relayer, deliveries } = createRelayer([], new Error("reverted"));
+            const failures: any[] = [];
+            relayer.on('deliveryFailed', failure => failures.push(failure));
+
+            await relayer.handleLog(1, mirroredLog(1, payload));
+            await relayer.handleLog(1, { ...mirroredLog(1, "0x1234"), logIndex: 1 });
+
+            expect(failures).to.have.length(2);
+            expect(deliveries.get(failures[0].message.messageId)).to.include({ status: 'failed', error: "reverted" });
+            expect(deliveries.get(failures[1].message.messageId)).to.include({ status: 'undeliverable' });
+            expect(failures[1].message.payload).to.be.undefined;
+        });
+    });
+
+    describe("Dead letters", function () {
+        const excessiveAmount = new BridgeError({
+            type: BridgeErrorType.ExcessiveAmount,
+            message: "Amount 100 exceeds the daily limit of 50",
+            details: { amount: ethers.BigNumber.from(100), limit: ethers.BigNumber.from(50) }
+        });
+
+        it("Should park locks that fail with a non-retryable bridge error", async function () {
+            const unlocks: any[][] = [];
+            const { relayer, monitoring, deadLetters } = createRelayer(unlocks, excessiveAmount);
+            const alerts: any[] = [];
+            monitoring.on('alert', alert => alerts.push(alert));
+
+            expect(await relayer.handleLog(1, lockLog(2))).to.equal('failed');
+            // Seeing the lock again must not retry it or raise another alert
+            expect(await relayer.handleLog(1, lockLog(2))).to.equal('deadLettered');
+
+            const entry = deadLetters.get(lockId)!;
+            expect(entry).to.include({ kind: 'lock', status: 'parked', errorType: 'ExcessiveAmount', failure: 'operator' });
+            expect(entry.revert).to.deep.equal({ name: 'ExcessiveAmount', args: { amount: "100", limit: "50" } });
+            expect(entry.attempts).to.have.length(1);
+            expect(alerts.filter(alert => alert.type === 'DeadLetter')).to.have.length(1);
+        });
+
+        it("Should keep the attempt history when a requeued lock fails again", async function () {
+            const { relayer, deadLetters } = createRelayer([], excessiveAmount);
+
+            await relayer.handleLog(1, lockLog(2));
+            const outcome = await relayer.requeue(lockId);
+
+            expect(outcome).to.equal('failed');
+            expect(deadLetters.get(lockId)?.status).to.equal('parked');
+            expect(deadLetters.get(lockId)?.attempts).to.have.length(2);
+        });
+
+        it("Should clear a requeued lock once it is relayed", async function () {
+            const unlocks: any[][] = [];
+            const { relayer, deadLetters, target } = createRelayer(unlocks, excessiveAmount);
+
+            await relayer.handleLog(1, lockLog(2));
+            target.unlockTokens = async (...args: any[]) => {
+                unlocks.push(args);
+                return { lockId, txHash: ethers.utils.id("unlock-tx"), alreadyProcessed: false };
+            };
+
+            expect(await relayer.requeue(lockId)).to.equal('relayed');
+            expect(unlocks).to.have.length(1);
+            expect(deadLetters.list()).to.be.empty;
+        });
+
+        it("Should park locks whose transient failures outlast the retries", async function () {
+            const timeout = Object.assign(new Error("request timed out"), { code: "TIMEOUT" });
+            const retryPolicy = new RetryPolicy({ maxAttempts: 2, initialDelay: 0, maxDelay: 0, backoffFactor: 1 });
+            const { relayer, deadLetters } = createRelayer([], timeout, [], retryPolicy);
+
+            expect(await relayer.handleLog(1, lockLog(2))).to.equal('failed');
+            expect(deadLetters.get(lockId)).to.include({ status: 'parked', failure: 'transient' });
+            expect(deadLetters.get(lockId)?.attempts.map(attempt => attempt.errorType)).to.deep.equal(["TIMEOUT", "TIMEOUT"]);
+
+            // A requeue that fails the same way must not be left marked as requeued
+            await relayer.requeue(lockId);
+            expect(deadLetters.get(lockId)?.status).to.equal('parked');
+            expect(deadLetters.get(lockId)?.attempts).to.have.length(4);
+        });
+
+        it("Should decode reason strings and custom errors from raw reverts", async function () {
+            const reverted = (data: string) =>
+                Object.assign(new Error("execution reverted"), { code: "UNPREDICTABLE_GAS_LIMIT", error: { data } });
+            const reason = ethers.utils.hexConcat([
+                "0x08c379a0",
+                ethers.utils.defaultAbiCoder.encode(["string"], ["BridgeMirror: asset not supported"])
+            ]);
+            const excessive = new ethers.utils.Interface(["error ExcessiveAmount(uint256 amount, uint256 limit)"])
+                .encodeErrorResult("ExcessiveAmount", [100, 50]);
+            const unknown = new ethers.utils.Interface(["error Unknown(uint256 code)"]).encodeErrorResult("Unknown", [7]);
+
+            const reverts = [];
+            for (const data of [reason, excessive, unknown]) {
+                const { relayer, deadLetters } = createRelayer([], reverted(data));
+                await relayer.handleLog(1, lockLog(2));
+                reverts.push(deadLetters.get(lockId)?.revert);
+            }
+
+            expect(reverts).to.deep.equal([
+                { name: 'Error', args: { reason: "BridgeMirror: asset not supported" } },
+                { name: 'ExcessiveAmount', args: { amount: "100", limit: "50" } },
+                { name: unknown.slice(0, 10), args: { data: unknown } }
+            ]);
+        });
+
+        it("Should refuse to requeue unknown entries", async function () {
+            const { relayer } = createRelayer([]);
+
+            try {
+                await relayer.requeue(lockId);
+                expect.fail("Expected the requeue to be rejected");
+            } catch (error) {
+                expect((error as Error).message).to.equal(`No dead-lettered relay with ID ${lockId}`);
+            }
+        });
+    });
+});
@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import { classifyError, RetryPolicy } from "../../src/utils/RetryPolicy";
+import { BridgeError, BridgeErrorType } from "../../src/utils/BridgeErrors";
+
+describe("RetryPolicy", function () {
+    const config = { maxAttempts: 4, initialDelay: 100, maxDelay: 300, backoffFactor: 2 };
+
+    function bridgeError(type: BridgeErrorType): BridgeError {
+        return new BridgeError({ type, message: type });
+    }
+
+    function createPolicy(delays: number[]): RetryPolicy {
+        return new RetryPolicy(config, () => 1, async ms => { delays.push(ms); });
+    }
+
+    it("Should classify bridge and provider errors", function () {
+        expect(classifyError(bridgeError(BridgeErrorType.Unauthorized))).to.equal('permanent');
+        expect(classifyError(bridgeError(BridgeErrorType.InvalidAmount))).to.equal('permanent');
+        expect(classifyError(bridgeError(BridgeErrorType.BridgePaused))).to.equal('operator');
+        expect(classifyError({ code: "TIMEOUT", message: "timeout" })).to.equal('transient');
+        expect(classifyError({ code: "NONCE_EXPIRED", message: "nonce has already been used" })).to.equal('transient');
+        expect(classifyError({ code: "SERVER_ERROR", error: { message: "replacement transaction underpriced" } }))
+            .to.equal('transient');
+        expect(classifyError({ code: "INSUFFICIENT_FUNDS", message: "insufficient funds for gas" })).to.equal('operator');
+        expect(classifyError({ code: "CALL_EXCEPTION", message: "execution reverted" })).to.equal('permanent');
+        expect(classifyError(new Error("unexpected"))).to.equal('permanent');
+    });
+
+    it("Should back off exponentially up to maxDelay", function () {
+        const policy = new RetryPolicy(config, () => 0);
+
+        expect([1, 2, 3, 4].map(attempt => policy.delayFor(attempt))).to.deep.equal([50, 100, 150, 150]);
+    });
+
+    it("Should retry transient failures until the operation succeeds", async function () {
+        const delays: number[] = [];
+        let calls = 0;
+
+        const result = await createPolicy(delays).execute(async () => {
+            if (++calls < 3) throw { code: "TIMEOUT", message: "timeout" };
+            return "done";
+        });
+
+        expect(result).to.equal("done");
+        expect(delays).to.deep.equal([100, 200]);
+    });
+
+    it("Should give up after maxAttempts", async function () {
+        const delays: number[] = [];
+        let calls = 0;
+
+        try {
+            await createPolicy(delays).execute(async () => {
+                calls++;
+                throw new Error("nonce too low");
+            });
+            expect.fail("Expected the last failure to be rethrown");
+        } catch (error) {
+            expect((error as Error).message).to.equal("nonce too low");
+        }
+        expect(calls).to.equal(4);
+        expect(delays).to.have.length(3);
+    });
+
+    it("Should not retry permanent or operator failures", async function () {
+        const delays: number[] = [];
+        const policy = createPolicy(delays);
+        const operatorActions: any[] = [];
+        policy.on('operatorAction', event => operatorActions.push(event));
+
+        for (const type of [BridgeErrorType.Unauthorized, BridgeErrorType.BridgePaused]) {
+            try {
+                await policy.execute(async () => { throw bridgeError(type); }, "unlock");
+                expect.fail("Expected the failure to be rethrown");
+            } catch (error) {
+                expect((error as BridgeError).type).to.equal(type);
+            }
+        }
+
+        expect(delays).to.be.empty;
+        expect(operatorActions.map(event => event.label)).to.deep.equal(["unlock"]);
+    });
+});
@@ -0,0 +1,161 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+    AttestationAggregator,
+    AttestationStore,
+    encodeThresholdClaim,
+    validatorSetFromConfig,
+    ValidatorService
+} from "../../src/services/ValidatorAttestations";
+import { lockEventInterface } from "../../src/services/LockEvents";
+import { decodeEnvelope, getEnvelopeHash, lockEnvelope } from "../../src/services/MessageEnvelope";
+import { BridgeError, BridgeErrorType } from "../../src/utils/BridgeErrors";
+import { CursorStore } from "../../src/utils/CursorStore";
+
+describe("ValidatorAttestations", function () {
+    const wallets = [0, 1, 2, 3].map(() => ethers.Wallet.createRandom());
+    const [first, second, third, outsider] = wallets;
+    const validatorSet = validatorSetFromConfig({
+        addresses: [first.address, second.address, second.address.toLowerCase(), third.address],
+        threshold: 2
+    });
+
+    const lockId = ethers.utils.id("lock-1");
+    const token = ethers.Wallet.createRandom().address;
+    const recipient = ethers.Wallet.createRandom().address;
+    const targetBridge = ethers.Wallet.createRandom().address;
+    const chains = new Map([[2, {
+        bridgeAddress: targetBridge,
+        governanceAddress: ethers.constants.AddressZero,
+        deploymentBlock: 0,
+        syncBatchSize: 100,
+        maxBlockRange: 100
+    }]]);
+
+    function lockLog(amount = 100, targetChainId = 2): ethers.providers.Log {
+        const encoded = lockEventInterface.encodeEventLog(
+            lockEventInterface.getEvent("TokensLocked"),
+            [lockId, token, first.address, amount, targetChainId, recipient]
+        );
+        return {
+            ...encoded,
+            address: ethers.constants.AddressZero,
+            blockNumber: 10,
+            blockHash: ethers.utils.id("block-10"),
+            transactionHash: ethers.utils.id("tx"),
+            transactionIndex: 0,
+            logIndex: 0,
+            removed: false
+        };
+    }
+
+    function validator(wallet: ethers.Wallet, store: AttestationStore): ValidatorService {
+        const provider = new ethers.providers.JsonRpcProvider("http://127.0.0.1:8545");
+        // Never started, so the cursor file is never written
+        const cursors = new CursorStore(path.join(os.tmpdir(), "validator-cursors.json"));
+        return new ValidatorService(wallet, { getProvider: () => provider }, chains, cursors, store);
+    }
+
+    function expectInsufficient(action: () => unknown, current: number) {
+        try {
+            action();
+            expect.fail("Expected aggregation to be rejected");
+        } catch (error) {
+            expect((error as BridgeError).type).to.equal(BridgeErrorType.InsufficientSignatures);
+            expect((error as BridgeError).details).to.include({ current, required: 2 });
+        }
+    }
+
+    it("Should take validators and their threshold from the validators entry", function () {
+        expect(validatorSet.validators).to.deep.equal([first.address, second.address, third.address]);
+        expect(validatorSet.threshold).to.equal(2);
+        expect(() => validatorSetFromConfig({ addresses: [first.address], threshold: 2 }))
+            .to.throw("Invalid validator threshold 2 for 1 validator(s)");
+        expect(() => validatorSetFromConfig(undefined))
+            .to.throw("No validators configured");
+    });
+
+    it("Should assemble a claim once the threshold is reached", async function () {
+        const store = new AttestationStore();
+        const aggregator = new AttestationAggregator(validatorSet, store, chains);
+
+        await validator(third, store).handleLog(1, lockLog());
+        expectInsufficient(() => aggregator.aggregate(lockId), 1);
+        expect(aggregator.ready()).to.be.empty;
+
+        await validator(first, store).handleLog(1, lockLog());
+        const claim = aggregator.aggregate(lockId);
+
+        const expectedSigners = [first.address, third.address].sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+        expect(claim.signers).to.deep.equal(expectedSigners);
+        expect(claim.envelopeHash).to.equal(getEnvelopeHash(lockEnvelope(claim.lock)));
+        expect(aggregator.ready().map(ready => ready.lock.lockId)).to.deep.equal([lockId]);
+
+        const [envelope, signatures] = ethers.utils.defaultAbiCoder.decode(["bytes", "bytes[]"], encodeThresholdClaim(claim));
+        expect(getEnvelopeHash(decodeEnvelope(envelope))).to.equal(claim.envelopeHash);
+        expect(signatures).to.deep.equal(claim.signatures);
+    });
+
+    it("Should only count members signing the same envelope hash", async function () {
+        const store = new AttestationStore();
+        const aggregator = new AttestationAggregator(validatorSet, store, chains);
+
+        await validator(first, store).handleLog(1, lockLog());
+        // Not in the validator set
+        await validator(outsider, store).handleLog(1, lockLog());
+        // Saw different lock contents
+        await validator(second, store).handleLog(1, lockLog(999));
+        // Claims to be a validator it is not
+        const forged = await validator(outsider, new AttestationStore()).handleLog(1, lockLog());
+        store.publish({ ...forged!, validator: third.address });
+
+        expectInsufficient(() => aggregator.aggregate(lockId), 1);
+    });
+
+    it("Should bind attestations to the bridge of the lock's target chain", async function () {
+        const store = new AttestationStore();
+        await validator(first, store).handleLog(1, lockLog());
+        await validator(second, store).handleLog(1, lockLog());
+
+        // Checked against another bridge, the same signatures recover to other addresses
+        const elsewhere = new Map([[2, { bridgeAddress: ethers.constants.AddressZero }]]);
+        expectInsufficient(() => new AttestationAggregator(validatorSet, store, elsewhere).aggregate(lockId), 0);
+        // Nothing could verify a claim on an unconfigured chain
+        expect(await validator(first, store).handleLog(1, lockLog(100, 3))).to.be.undefined;
+    });
+
+    it("Should share attestations between validator processes through a directory", async function () {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "attestations-"));
+        try {
+            await validator(first, new AttestationStore(directory)).handleLog(1, lockLog());
+            await validator(second, new AttestationStore(directory)).handleLog(1, lockLog());
+
+            const claim = new AttestationAggregator(validatorSet, new AttestationStore(directory), chains).aggregate(lockId);
+
+            expect(claim.signers).to.have.length(2);
+            expect(fs.readdirSync(directory)).to.have.length(2);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it("Should retract attestations for locks removed by a reorg", async function () {
+        const store = new AttestationStore();
+        const service = validator(first, store);
+        const log = lockLog();
+
+        const attestation = (await service.handleLog(1, log))!;
+        expect(store.forLock(lockId)).to.deep.equal([attestation]);
+
+        await service.handleReorg({
+            chainId: 1,
+            blockNumber: 10,
+            logs: [{ transactionHash: log.transactionHash, logIndex: 0, topics: log.topics }]
+        });
+
+        expect(store.forLock(lockId)).to.be.empty;
+    });
+});